@@ -0,0 +1,11 @@
+// Unit tests run in jsdom so DOMParser and XMLSerializer behave like in the browser
+module.exports = {
+  roots: ['<rootDir>/tests'],
+  testEnvironment: 'jsdom',
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      isolatedModules: true,
+      tsconfig: { module: 'commonjs', target: 'es2019', lib: ['es2020', 'dom'], esModuleInterop: true }
+    }]
+  }
+}
@@ -0,0 +1,89 @@
+import { type AlertLevel, type ForecastLocation, type WeatherAlert } from './types'
+import { fetchMetJson } from './met-api'
+import { fillEndpointTemplate } from './providers/custom-json'
+
+/**
+ * Official weather warnings from met.no MetAlerts 2.0. The feed is GeoJSON
+ * with CAP fields in each feature's properties; asking with lat/lon returns
+ * only the warnings whose area contains the point.
+ */
+
+const METALERTS_URL = 'https://api.met.no/weatherapi/metalerts/2.0/current.json'
+
+// Colours of the MET Norway awareness levels
+export const ALERT_COLORS: { [level in AlertLevel]: string } = {
+  green: '#3FB34F',
+  yellow: '#FFD83D',
+  orange: '#FF9A1F',
+  red: '#E8352B'
+}
+
+const LEVEL_ORDER: AlertLevel[] = ['green', 'yellow', 'orange', 'red']
+
+// Runtime message ids of the level names
+export const ALERT_LEVEL_MESSAGES: { [level in AlertLevel]: string } = {
+  green: 'alertLevelGreen',
+  yellow: 'alertLevelYellow',
+  orange: 'alertLevelOrange',
+  red: 'alertLevelRed'
+}
+
+/**
+ * The feed URL may be a stub with {lat} and {lon} placeholders, or none at all
+ * for a static file. Empty means the public MetAlerts endpoint.
+ */
+export const getAlertsUrl = (location: ForecastLocation, feedUrl: string): string => {
+  if (feedUrl) return fillEndpointTemplate(feedUrl, location.lat, location.lon, location.altitude)
+  const query = new URLSearchParams({ lat: location.lat.toFixed(4), lon: location.lon.toFixed(4) })
+  return `${METALERTS_URL}?${query.toString()}`
+}
+
+// CAP values come as "2; yellow; Moderate" and "1; Wind"
+const toLevel = (value: unknown): AlertLevel | null => {
+  const parts = typeof value === 'string' ? value.split(';').map(part => part.trim().toLowerCase()) : []
+  const level = parts.find(part => (LEVEL_ORDER as string[]).includes(part)) as AlertLevel | undefined
+  return level ?? null
+}
+
+const toAwarenessType = (value: unknown): string => {
+  if (typeof value !== 'string') return ''
+  const parts = value.split(';')
+  return parts[parts.length - 1].trim()
+}
+
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : ''
+
+export const transformAlerts = (data: any, now = Date.now()): WeatherAlert[] => {
+  const features: any[] = Array.isArray(data?.features) ? data.features : []
+  const alerts: WeatherAlert[] = []
+  for (const feature of features) {
+    const props = feature?.properties ?? {}
+    const [start, end] = Array.isArray(feature?.when?.interval) ? feature.when.interval : []
+    const level = toLevel(props.awareness_level) ?? toLevel(props.riskMatrixColor)
+    if (!level || level === 'green' || !start || !end || Date.parse(end) < now) continue
+    alerts.push({
+      id: text(props.id) || `${text(props.event)}-${start}`,
+      title: text(props.title) || text(props.eventAwarenessName),
+      awarenessType: toAwarenessType(props.awareness_type),
+      level,
+      eventName: text(props.eventAwarenessName),
+      area: text(props.area),
+      description: text(props.description),
+      consequences: text(props.consequences),
+      instruction: text(props.instruction),
+      start,
+      end,
+      // Only ever rendered as a link, so anything but http(s) is dropped
+      web: /^https?:\/\//i.test(text(props.web)) ? text(props.web) : null
+    })
+  }
+  // Most severe first, then the earliest
+  return alerts.sort((a, b) =>
+    LEVEL_ORDER.indexOf(b.level) - LEVEL_ORDER.indexOf(a.level) || Date.parse(a.start) - Date.parse(b.start)
+  )
+}
+
+export const fetchAlerts = async (location: ForecastLocation, feedUrl: string): Promise<WeatherAlert[]> => {
+  const result = await fetchMetJson(getAlertsUrl(location, feedUrl))
+  return transformAlerts(result.data)
+}
@@ -0,0 +1,184 @@
+import { type IMConfig } from './config'
+
+/**
+ * Recolouring of fetched charts. Each rule matches a source colour, or any
+ * CSS selector within the chart, and paints its fill and/or stroke with a
+ * fixed colour or one of the style settings. The default preset covers the
+ * yr.no meteogram; other SVG sources get their own rules.
+ */
+
+export type ColorRuleTarget = 'fill' | 'stroke' | 'both'
+
+export interface ColorRule {
+  id: string
+  // A hex or rgb() colour such as #56616c, or a CSS selector such as path[stroke="#aa00f2"]
+  match: string
+  target: ColorRuleTarget
+  // Style setting that supplies the colour, e.g. 'windLineColor'; empty uses `color`
+  colorSetting: ColorSetting | ''
+  color: string
+}
+
+export const COLOR_RULE_TARGETS: ColorRuleTarget[] = ['fill', 'stroke', 'both']
+
+export const COLOR_SETTINGS = [
+  'mainTextColor', 'secondaryTextColor', 'yAxisIconColor', 'gridLineColor', 'temperatureLineColor', 'windLineColor',
+  'windGustLineColor', 'precipitationBarColor', 'maxPrecipitationColor', 'logoColor', 'yrLogoBackgroundColor', 'yrLogoTextColor'
+] as const
+
+export type ColorSetting = typeof COLOR_SETTINGS[number]
+
+const presetRule = (id: string, match: string, target: ColorRuleTarget, colorSetting: ColorSetting): ColorRule =>
+  ({ id: `yr-${id}`, match, target, colorSetting, color: '' })
+
+/** Mappings for the yr.no meteogram markup, used until the author edits the list. */
+export const DEFAULT_COLOR_RULES: ColorRule[] = [
+  presetRule('axis-icons', '#56616c', 'both', 'yAxisIconColor'),
+  presetRule('current-stroke', '[stroke="currentColor"]', 'stroke', 'yAxisIconColor'),
+  presetRule('current-fill', '[fill="currentColor"]', 'fill', 'yAxisIconColor'),
+  presetRule('grid', 'line[stroke="#c3d0d8"], line[stroke="#56616c"]', 'stroke', 'gridLineColor'),
+  presetRule('temperature', 'path[stroke="url(#temperature-curve-gradient)"]', 'stroke', 'temperatureLineColor'),
+  presetRule('wind', 'path[stroke="#aa00f2"]:not([stroke-dasharray])', 'stroke', 'windLineColor'),
+  presetRule('wind-gust', 'path[stroke="#aa00f2"][stroke-dasharray]', 'stroke', 'windGustLineColor'),
+  // Legend chips are inline <svg> blocks; the gust chip is the rounded one
+  presetRule('temperature-chip', 'svg rect[fill="#c60000"]', 'fill', 'temperatureLineColor'),
+  presetRule('wind-chip', 'svg rect[fill="#aa00f2"]:not([rx])', 'fill', 'windLineColor'),
+  presetRule('wind-gust-chip', 'svg rect[fill="#aa00f2"][rx]', 'fill', 'windGustLineColor'),
+  presetRule('precipitation-bars', 'rect[fill="#006edb"]', 'fill', 'precipitationBarColor'),
+  presetRule('precipitation-lines', 'line[stroke="#006edb"], path[stroke="#006edb"]', 'stroke', 'precipitationBarColor'),
+  presetRule('yr-logo-background', 'svg[x="16"] circle', 'fill', 'yrLogoBackgroundColor'),
+  presetRule('yr-logo-text', 'svg[x="16"] path', 'fill', 'yrLogoTextColor'),
+  presetRule('partner-logos', 'svg[x="624"] path, svg[x="675.5"] path', 'fill', 'logoColor')
+]
+
+export const createColorRule = (match = '', color = '#000000'): ColorRule => ({
+  id: `color-${Date.now().toString(36)}`,
+  match,
+  target: 'both',
+  colorSetting: '',
+  color
+})
+
+/** Rules in effect: the author's list, or the default preset when there is none. */
+export const getColorRules = (rules?: readonly ColorRule[] | null): ColorRule[] =>
+  (rules ?? DEFAULT_COLOR_RULES).filter(rule => rule?.match?.trim())
+
+/** Lower-case #rrggbb for hex and rgb() colours; null for anything else. */
+export const normalizeColor = (value: string): string | null => {
+  const text = value.trim().toLowerCase()
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(text)
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1]
+    return `#${digits}`
+  }
+  const rgb = /^rgb\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)$/.exec(text)
+  if (rgb && rgb.slice(1).every(c => Number(c) <= 255)) {
+    return `#${rgb.slice(1).map(c => Number(c).toString(16).padStart(2, '0')).join('')}`
+  }
+  return null
+}
+
+// Values end up inside a <style> element, so nothing may close the rule or the element early
+const isSafeCss = (value: string): boolean => !/[{}<;]/.test(value)
+
+export const isValidSelector = (selector: string): boolean => {
+  if (!selector.trim() || !isSafeCss(selector)) return false
+  try {
+    document.createDocumentFragment().querySelector(selector)
+    return true
+  } catch (err) {
+    return false
+  }
+}
+
+export const isValidColorRuleMatch = (match: string): boolean =>
+  normalizeColor(match) !== null || isValidSelector(match)
+
+// Commas inside :not(...) or attribute values do not separate selectors
+const splitSelectorList = (selector: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let current = ''
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '(' || char === '[') {
+      depth++
+    } else if (char === ')' || char === ']') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      parts.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+  parts.push(current.trim())
+  return parts.filter(Boolean)
+}
+
+// The ways a colour is written in attributes and inline styles
+const colorSelectors = (hex: string, property: 'fill' | 'stroke'): string[] => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16))
+  const short = hex[1] === hex[2] && hex[3] === hex[4] && hex[5] === hex[6] ? `#${hex[1]}${hex[3]}${hex[5]}` : null
+  const values = [hex, `rgb(${r},${g},${b})`, `rgb(${r}, ${g}, ${b})`]
+  // Short hex only as a whole attribute value; as a substring it would also match #fff000
+  return [
+    ...(short ? [`[${property}="${short}" i]`] : []),
+    ...values.flatMap(value => [
+      `[${property}="${value}" i]`,
+      `[style*="${property}:${value}" i]`,
+      `[style*="${property}: ${value}" i]`
+    ])
+  ]
+}
+
+const getRuleSelectors = (rule: ColorRule): string[] => {
+  const hex = normalizeColor(rule.match)
+  if (!hex) return isValidSelector(rule.match) ? splitSelectorList(rule.match) : []
+  return [
+    ...(rule.target !== 'stroke' ? colorSelectors(hex, 'fill') : []),
+    ...(rule.target !== 'fill' ? colorSelectors(hex, 'stroke') : [])
+  ]
+}
+
+/** Scoped CSS for the rules; `prefix` selects the chart, e.g. `.yrw-1 .svg-image-container.external-svg svg`. */
+export const buildColorRuleCss = (rules: ColorRule[], config: IMConfig, prefix: string): string =>
+  rules.map(rule => {
+    const color = rule.colorSetting ? config[rule.colorSetting] : rule.color
+    const selectors = getRuleSelectors(rule)
+    if (!color || !isSafeCss(color) || !selectors.length) return ''
+    const declarations: string[] = []
+    if (rule.target !== 'stroke') declarations.push(`fill: ${color} !important;`)
+    if (rule.target !== 'fill') declarations.push(`stroke: ${color} !important;`)
+    // Gridlines keep following the gridline width and opacity settings
+    if (rule.colorSetting === 'gridLineColor' && rule.target !== 'fill') {
+      declarations.push(`stroke-width: ${config.gridLineWidth}px !important;`, `stroke-opacity: ${config.gridLineOpacity} !important;`)
+    }
+    return `${selectors.map(selector => `${prefix} ${selector}`).join(',\n')} { ${declarations.join(' ')} }`
+  }).join('\n')
+
+const PAINT_ATTRIBUTES = ['fill', 'stroke', 'stop-color', 'color']
+
+/** Distinct hex and rgb() colours used in a chart, most used first. */
+export const detectColors = (svg: Element): string[] => {
+  const counts = new Map<string, number>()
+  const count = (value: string | null) => {
+    const color = value ? normalizeColor(value) : null
+    if (color) counts.set(color, (counts.get(color) ?? 0) + 1)
+  }
+  const elements = [svg, ...Array.from(svg.querySelectorAll('*'))]
+  elements.forEach(element => {
+    PAINT_ATTRIBUTES.forEach(name => { count(element.getAttribute(name)) })
+    const style = element.getAttribute('style') ?? ''
+    style.split(';').forEach(declaration => {
+      const [name, value] = declaration.split(':')
+      if (value && PAINT_ATTRIBUTES.includes(name.trim().toLowerCase())) count(value)
+    })
+  })
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([color]) => color)
+}
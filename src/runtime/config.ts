@@ -1,10 +1,69 @@
 import { type ImmutableObject } from 'jimu-core'
+import { type TemperatureUnit, type WindUnit, type PrecipitationUnit } from './units'
+import { type ForecastProviderId, type CustomFieldMapping } from './providers/types'
+import { type PanelId } from './panels'
+import { type ThresholdRule } from './thresholds'
+import { type ExportFormat } from './export'
+import { type ColorRule } from './color-rules'
+
+export type ForecastHorizon = '24h' | '48h' | '3d' | 'full'
+
+export type TimeZoneMode = 'location' | 'custom'
+
+export type WindDirectionStyle = 'arrows' | 'barbs' | 'none'
+
+export type LayoutMode = 'auto' | 'chart' | 'card'
 
 export interface Config {
   sourceUrl: string
+  latitude: number | null
+  longitude: number | null
+  altitude: number | null
+  locationName: string
+  forecastProvider: ForecastProviderId
+  // Empty uses the provider's public endpoint
+  providerBaseUrl: string
+  // Only used by the 'custom' provider
+  customEndpointUrl: string
+  customFieldMapping: CustomFieldMapping
   autoRefreshEnabled: boolean
   refreshInterval: number
+  // Offers the radar nowcast chart where met.no Nowcast covers the location
+  enableNowcast: boolean
+  // Minutes; used when the nowcast response carries no Expires header
+  nowcastRefreshInterval: number
+  // MetAlerts warnings as a banner and shaded periods on the chart
+  showWarnings: boolean
+  // Empty uses api.met.no; otherwise a feed in the MetAlerts GeoJSON format, optionally with {lat}/{lon}
+  warningsFeedUrl: string
+  forecastHorizon: ForecastHorizon
+  // Draws percentile bands and max precipitation; met.no sources switch to the "complete" product
+  showUncertainty: boolean
+  // Chart panels from top to bottom
+  panels: PanelId[]
+  // Sunrise API based night shading and sunrise/sunset labels
+  showNightShading: boolean
+  showSunTimes: boolean
+  // Operational limits highlighted on the chart and broadcast as a selection when they first match
+  thresholdRules: ThresholdRule[]
+  // Formats offered in the export menu; empty hides the menu
+  exportFormats: ExportFormat[]
+  // Multiple of the chart's own size for PNG exports
+  pngScale: number
+  // 'location' resolves the zone from the coordinates; 'custom' uses the IANA name in timeZone
+  timeZoneMode: TimeZoneMode
+  timeZone: string
+  // 'auto' shows the compact card while the widget is narrower than compactBreakpoint (px)
+  layoutMode: LayoutMode
+  compactBreakpoint: number
+
+  // Display units; forecast data itself stays in °C, m/s and mm
+  temperatureUnit: TemperatureUnit
+  windUnit: WindUnit
+  precipitationUnit: PrecipitationUnit
   svgCode: string
+  // Recolouring of fetched SVG charts; null uses DEFAULT_COLOR_RULES
+  colorRules: ColorRule[] | null
 
   overallBackground: string
   padding: number
@@ -26,8 +85,17 @@ export interface Config {
   temperatureLineColor: string
   windLineColor: string
   windGustLineColor: string
+  windDirectionStyle: WindDirectionStyle
+  windDirectionColor: string
   precipitationBarColor: string
   maxPrecipitationColor: string
+  cloudCoverColor: string
+  humidityColor: string
+  pressureColor: string
+  dewPointColor: string
+  uvIndexColor: string
+  nightShadingColor: string
+  nightShadingOpacity: number
 
   // UI buttons
   refreshButtonBackgroundColor: string
@@ -47,6 +115,13 @@ export interface Config {
   popupBoxShadowColor: string
   blockPage: boolean
   maskColor: string
+
+  // Hover crosshair / tooltip
+  crosshairColor: string
+  tooltipBackgroundColor: string
+  tooltipTextColor: string
+  tooltipBorderColor: string
+  tooltipBorderRadius: number
 }
 
 export type IMConfig = ImmutableObject<Config>
@@ -0,0 +1,37 @@
+import { type ForecastPayload, type ForecastPoint } from './types'
+
+/**
+ * Figures for the compact card: the forecast step that covers the current
+ * time and the precipitation expected over the next few hours. Values stay in
+ * °C, m/s and mm like the forecast itself.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const NEXT_HOURS = 6
+
+export interface CurrentConditions {
+  point: ForecastPoint
+  // The point's own symbol, or the first one later in the window
+  symbolCode: string | null
+  // Total over `hours`; null when the source has no precipitation in that window
+  precipitation: number | null
+  hours: number
+}
+
+export const getCurrentConditions = (forecast: ForecastPayload | null, now = Date.now(), hours = NEXT_HOURS): CurrentConditions | null => {
+  const points = forecast?.points ?? []
+  if (!points.length) return null
+  const times = points.map(p => new Date(p.time).getTime())
+  // Last step that has started; a forecast that starts later begins with its first step
+  const index = times.reduce((current, time, i) => time <= now ? i : current, 0)
+  const windowEnd = times[index] + hours * HOUR_MS
+  const upcoming = points.filter((_, i) => i >= index && times[i] < windowEnd)
+
+  const amounts = upcoming.map(p => p.precipitation).filter((v): v is number => typeof v === 'number')
+  return {
+    point: points[index],
+    symbolCode: upcoming.find(p => p.symbolCode)?.symbolCode ?? null,
+    precipitation: amounts.length ? amounts.reduce((sum, v) => sum + v, 0) : null,
+    hours
+  }
+}
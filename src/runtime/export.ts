@@ -0,0 +1,146 @@
+import { type ForecastLocation, type ForecastPayload, type ForecastPoint } from './types'
+
+/**
+ * Downloads of the chart and the data behind it. Chart colours are applied by
+ * the widget's scoped CSS rather than written into the markup, so image
+ * exports copy the computed paint of the rendered SVG into the copy.
+ */
+
+export type ExportFormat = 'svg' | 'png' | 'csv' | 'json'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['svg', 'png', 'csv', 'json']
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Presentation properties the scoped CSS may override
+const PAINT_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'display', 'visibility'
+]
+
+/** Known, de-duplicated formats in the configured order. */
+export const getExportFormats = (formats?: readonly string[] | null): ExportFormat[] =>
+  (formats ?? EXPORT_FORMATS).filter((format, i, all) =>
+    EXPORT_FORMATS.includes(format as ExportFormat) && all.indexOf(format) === i) as ExportFormat[]
+
+export const getPngScale = (scale?: number | null): number =>
+  Math.min(4, Math.max(1, scale || 2))
+
+/** Standalone SVG markup of a rendered chart, as it looks on screen. */
+export const serializeRenderedSvg = (rendered: SVGSVGElement, background: string): string => {
+  const copy = rendered.cloneNode(true) as SVGSVGElement
+  const sources = [rendered, ...Array.from(rendered.querySelectorAll('*'))]
+  const targets = [copy, ...Array.from(copy.querySelectorAll('*'))]
+  sources.forEach((source, i) => {
+    const computed = window.getComputedStyle(source)
+    const target = targets[i] as SVGElement
+    const style = PAINT_PROPERTIES
+      .map(name => `${name}:${computed.getPropertyValue(name)}`)
+      .filter(rule => !rule.endsWith(':'))
+      .join(';')
+    target.setAttribute('style', `${target.getAttribute('style') || ''};${style}`)
+  })
+
+  // The widget strips the size so the chart scales; image viewers need it back
+  const viewBox = rendered.viewBox?.baseVal
+  if (viewBox?.width && viewBox?.height) {
+    copy.setAttribute('width', viewBox.width.toString())
+    copy.setAttribute('height', viewBox.height.toString())
+  }
+  copy.setAttribute('xmlns', SVG_NS)
+  copy.style.backgroundColor = background
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(copy)}`
+}
+
+/** Draws SVG markup onto a canvas at `scale` times its own size. */
+export const rasterizeSvg = (svg: string, width: number, height: number, scale: number, background: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }))
+    const image = new Image()
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.round(width * scale)
+        canvas.height = Math.round(height * scale)
+        const context = canvas.getContext('2d')
+        context.fillStyle = background
+        context.fillRect(0, 0, canvas.width, canvas.height)
+        context.drawImage(image, 0, 0, canvas.width, canvas.height)
+        canvas.toBlob(blob => { blob ? resolve(blob) : reject(new Error('Canvas could not be encoded.')) }, 'image/png')
+      } catch (err) {
+        reject(err)
+      } finally {
+        URL.revokeObjectURL(url)
+      }
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('SVG could not be rasterised.'))
+    }
+    image.src = url
+  })
+
+const csvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return ''
+  const text = value.toString()
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Column name, then the value of a point; values stay in the units of the data
+const CSV_COLUMNS: Array<[string, (p: ForecastPoint) => string | number | null | undefined]> = [
+  ['time', p => p.time],
+  ['temperature_c', p => p.temperature],
+  ['wind_speed_ms', p => p.windSpeed],
+  ['wind_gust_ms', p => p.windGust],
+  ['wind_direction_deg', p => p.windDirection],
+  ['precipitation_mm', p => p.precipitation],
+  ['period_hours', p => p.periodHours],
+  ['symbol_code', p => p.symbolCode],
+  ['cloud_cover_pct', p => p.cloudAreaFraction],
+  ['relative_humidity_pct', p => p.relativeHumidity],
+  ['air_pressure_hpa', p => p.airPressure],
+  ['dew_point_c', p => p.dewPoint],
+  ['uv_index', p => p.uvIndex]
+]
+
+const describeLocation = (location: ForecastLocation | null): string =>
+  location ? `${location.name ? `${location.name} ` : ''}(${location.lat.toFixed(4)}, ${location.lon.toFixed(4)})` : ''
+
+/** CSV with comment lines for the location and update time before the header row. */
+export const toCsv = (forecast: ForecastPayload, location: ForecastLocation | null): string => {
+  const lines = [
+    `# Location: ${describeLocation(location)}`,
+    `# Updated: ${forecast.updatedAt}`
+  ]
+  if (forecast.source) lines.push(`# Source: ${forecast.source}`)
+  lines.push(CSV_COLUMNS.map(([name]) => name).join(','))
+  forecast.points.forEach(point => {
+    lines.push(CSV_COLUMNS.map(([, read]) => csvCell(read(point))).join(','))
+  })
+  return lines.join('\r\n')
+}
+
+export const toJson = (forecast: ForecastPayload, location: ForecastLocation | null): string =>
+  JSON.stringify({
+    location: location ? { name: location.name ?? null, lat: location.lat, lon: location.lon, altitude: location.altitude ?? null } : null,
+    updatedAt: forecast.updatedAt,
+    source: forecast.source ?? null,
+    points: forecast.points
+  }, null, 2)
+
+export const getExportFileName = (location: ForecastLocation | null, extension: string): string => {
+  const slug = (location?.name || 'meteogram').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'meteogram'
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`
+}
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Some browsers read the URL after click() returns
+  setTimeout(() => { URL.revokeObjectURL(url) }, 1000)
+}
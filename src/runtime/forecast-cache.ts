@@ -0,0 +1,98 @@
+import { type ForecastLocation, type ForecastPayload, type SunDay } from './types'
+
+/**
+ * Per-location forecast cache in IndexedDB. The widget renders from here on
+ * load so a chart is visible straight away, offline included, while a fresh
+ * forecast is fetched. Sunrise data is kept next to it, per location and
+ * day. Every call resolves even when IndexedDB is missing or blocked (private
+ * browsing, sandboxed iframes); the cache is then simply empty.
+ */
+
+export interface CachedForecast {
+  key: string
+  payload: ForecastPayload
+  // Epoch ms of the successful fetch
+  fetchedAt: number
+  // Epoch ms from the Expires header, null when unknown
+  expires: number | null
+}
+
+const DB_NAME = 'yr-meteogram-widget'
+const DB_VERSION = 2
+const FORECAST_STORE = 'forecasts'
+const SUN_STORE = 'sun'
+// Forecasts reach about ten days ahead, so older entries are useless
+const MAX_AGE_MS = 10 * 24 * 60 * 60 * 1000
+
+let dbPromise: Promise<IDBDatabase | null> = null
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      try {
+        if (typeof indexedDB === 'undefined') { resolve(null); return }
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          for (const store of [FORECAST_STORE, SUN_STORE]) {
+            if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'key' })
+          }
+        }
+        request.onsuccess = () => { resolve(request.result) }
+        request.onerror = () => { resolve(null) }
+        request.onblocked = () => { resolve(null) }
+      } catch (err) {
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const runRequest = <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T | null> =>
+  openDatabase().then(db => new Promise<T | null>(resolve => {
+    if (!db) { resolve(null); return }
+    try {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => { resolve(request.result ?? null) }
+      request.onerror = () => { resolve(null) }
+    } catch (err) {
+      resolve(null)
+    }
+  }))
+
+/** Same precision api.met.no accepts, so nearby clicks share one entry. */
+export const getCacheKey = (location: ForecastLocation): string => {
+  const altitude = typeof location.altitude === 'number' ? Math.round(location.altitude).toString() : ''
+  return `${location.lat.toFixed(4)},${location.lon.toFixed(4)},${altitude}`
+}
+
+// Entries are kept per provider as well, since providers disagree about the same place
+const getEntryKey = (location: ForecastLocation, provider: string): string => `${provider}|${getCacheKey(location)}`
+
+export const readCachedForecast = (location: ForecastLocation, provider: string): Promise<CachedForecast | null> =>
+  runRequest<CachedForecast>(FORECAST_STORE, 'readonly', store => store.get(getEntryKey(location, provider)))
+    .then(entry => entry && Date.now() - entry.fetchedAt < MAX_AGE_MS ? entry : null)
+
+export const writeCachedForecast = (location: ForecastLocation, provider: string, payload: ForecastPayload, expires: number | null): Promise<void> => {
+  const entry: CachedForecast = { key: getEntryKey(location, provider), payload, fetchedAt: Date.now(), expires }
+  return runRequest(FORECAST_STORE, 'readwrite', store => store.put(entry))
+    .then(() => pruneStore(FORECAST_STORE))
+}
+
+export const readCachedSunDay = (location: ForecastLocation, date: string): Promise<SunDay | null> =>
+  runRequest<SunDay>(SUN_STORE, 'readonly', store => store.get(`${getCacheKey(location)}|${date}`))
+
+// Sun times never change, so entries are only dropped once they are old
+export const writeCachedSunDay = (location: ForecastLocation, day: SunDay): Promise<void> =>
+  runRequest(SUN_STORE, 'readwrite', store => store.put({ ...day, key: `${getCacheKey(location)}|${day.date}` }))
+    .then(() => pruneStore(SUN_STORE))
+
+const pruneStore = (storeName: string): Promise<void> =>
+  runRequest<Array<{ key: string, fetchedAt: number }>>(storeName, 'readonly', store => store.getAll())
+    .then(entries => {
+      const cutoff = Date.now() - MAX_AGE_MS
+      const expired = (entries ?? []).filter(entry => entry.fetchedAt < cutoff)
+      return Promise.all(expired.map(entry => runRequest(storeName, 'readwrite', store => store.delete(entry.key))))
+    })
+    .then(() => undefined)
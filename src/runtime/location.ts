@@ -0,0 +1,61 @@
+import { type IMConfig } from './config'
+import { type Coordinates, type ForecastLocation } from './types'
+
+const COORD_SEGMENT = /^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/
+
+export const isValidLatitude = (value: number | null | undefined): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= -90 && value <= 90
+
+export const isValidLongitude = (value: number | null | undefined): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= -180 && value <= 180
+
+// Dead Sea shore to the top of Everest, in metres
+export const isValidAltitude = (value: number | null | undefined): boolean =>
+  value === null || value === undefined || (Number.isFinite(value) && value >= -500 && value <= 9000)
+
+/**
+ * Reads coordinates out of a yr.no content URL (`/content/60.9,3.1/...`) or
+ * an api.met.no style query string (`?lat=60.9&lon=3.1&altitude=12`).
+ */
+export const extractCoordinates = (url: string): (Coordinates & { altitude?: number }) | null => {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch (err) {
+    return null
+  }
+
+  const params = parsed.searchParams
+  if (params.has('lat') && params.has('lon')) {
+    const lat = parseFloat(params.get('lat'))
+    const lon = parseFloat(params.get('lon'))
+    const altitude = params.has('altitude') ? parseFloat(params.get('altitude')) : NaN
+    if (isValidLatitude(lat) && isValidLongitude(lon)) {
+      return Number.isFinite(altitude) ? { lat, lon, altitude } : { lat, lon }
+    }
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean).map(seg => decodeURIComponent(seg))
+  for (const seg of segments) {
+    const match = COORD_SEGMENT.exec(seg)
+    if (!match) continue
+    const lat = parseFloat(match[1])
+    const lon = parseFloat(match[2])
+    if (isValidLatitude(lat) && isValidLongitude(lon)) return { lat, lon }
+  }
+  return null
+}
+
+/**
+ * The location authored in the setting panel, or null when latitude and
+ * longitude are missing or out of range.
+ */
+export const getConfiguredLocation = (config: IMConfig): ForecastLocation | null => {
+  if (!isValidLatitude(config.latitude) || !isValidLongitude(config.longitude)) return null
+  return {
+    lat: config.latitude,
+    lon: config.longitude,
+    altitude: isValidAltitude(config.altitude) ? config.altitude : null,
+    name: config.locationName?.trim() || undefined
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Fetch layer for api.met.no JSON products, following the terms of service:
+ * responses are kept per request URL together with their `Expires`,
+ * `Last-Modified` and `ETag` headers, repeat requests are conditional, and
+ * callers are told when the data may next be refreshed. Conditional headers
+ * make a cross-origin GET need a CORS preflight, so other hosts (such as a
+ * user's SVG source) get a plain request and the browser cache revalidates.
+ */
+
+export interface CachedResponse {
+  data: any
+  // Epoch ms from the Expires header; null when the server sent none
+  expires: number | null
+  lastModified: string | null
+  etag: string | null
+  fetchedAt: number
+  // The server answered 203: the product version is deprecated
+  deprecated: boolean
+}
+
+export interface MetFetchResult extends CachedResponse {
+  // The server answered 304 and `data` is the copy we already had
+  notModified: boolean
+}
+
+export class HttpError extends Error {
+  status: number
+  // Milliseconds from a Retry-After header, if any
+  retryAfter: number | null
+
+  constructor (status: number, retryAfter: number | null = null) {
+    super(`HTTP ${status}`)
+    this.name = 'HttpError'
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+const responseCache = new Map<string, CachedResponse>()
+
+const MET_API_HOST = 'api.met.no'
+
+const isMetApiUrl = (url: string): boolean => {
+  try {
+    return new URL(url).hostname === MET_API_HOST
+  } catch (err) {
+    return false
+  }
+}
+
+export const parseHttpDate = (value: string | null): number | null => {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isFinite(time) ? time : null
+}
+
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = parseHttpDate(value)
+  return date === null ? null : Math.max(0, date - Date.now())
+}
+
+const fetchConditional = async (url: string, accept: string, read: (res: Response) => Promise<any>, signal?: AbortSignal): Promise<MetFetchResult> => {
+  const conditional = isMetApiUrl(url)
+  const cached = conditional ? responseCache.get(url) : undefined
+  const headers: { [name: string]: string } = { Accept: accept }
+  if (cached?.etag) headers['If-None-Match'] = cached.etag
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified
+
+  const res = await fetch(url, { credentials: 'omit', headers, signal })
+  const expires = parseHttpDate(res.headers.get('Expires'))
+
+  if (res.status === 304 && cached) {
+    const refreshed: CachedResponse = { ...cached, expires: expires ?? cached.expires }
+    responseCache.set(url, refreshed)
+    return { ...refreshed, notModified: true }
+  }
+  if (!res.ok) throw new HttpError(res.status, parseRetryAfter(res.headers.get('Retry-After')))
+
+  const entry: CachedResponse = {
+    data: await read(res),
+    expires,
+    lastModified: res.headers.get('Last-Modified'),
+    etag: res.headers.get('ETag'),
+    fetchedAt: Date.now(),
+    deprecated: res.status === 203
+  }
+  if (conditional) responseCache.set(url, entry)
+  return { ...entry, notModified: false }
+}
+
+export const fetchMetJson = (url: string, signal?: AbortSignal): Promise<MetFetchResult> =>
+  fetchConditional(url, 'application/json', res => res.json(), signal)
+
+// For markup such as the yr.no meteogram SVG; `data` is the response body as text
+export const fetchMetText = (url: string, accept: string, signal?: AbortSignal): Promise<MetFetchResult> =>
+  fetchConditional(url, accept, res => res.text(), signal)
@@ -0,0 +1,141 @@
+import { type IMConfig } from './config'
+import { type ForecastLocation, type NowcastPayload, type NowcastPoint, type Translate } from './types'
+import { fetchMetJson, HttpError } from './met-api'
+import { convertPrecipitation, precipitationSymbol, precipitationDecimals, niceStep, stepDecimals } from './units'
+import { escapeXml } from './xml'
+
+/**
+ * Precipitation nowcast from met.no Nowcast 2.0: radar based, 5-minute steps
+ * for the next two hours, Nordic area only.
+ */
+
+const NOWCAST_URL = 'https://api.met.no/weatherapi/nowcast/2.0/complete'
+const MINUTE_MS = 60 * 1000
+
+/** Loose bounds of the radar composite; points outside are not worth asking for. */
+export const isInNowcastArea = (lat: number, lon: number): boolean =>
+  lat >= 52 && lat <= 73 && lon >= -5 && lon <= 37
+
+export interface NowcastResult {
+  // Null when the location is outside radar coverage or the radar is down
+  payload: NowcastPayload | null
+  expires: number | null
+}
+
+export const transformNowcast = (data: any): NowcastPayload | null => {
+  const series: any[] = Array.isArray(data?.properties?.timeseries) ? data.properties.timeseries : []
+  const points: NowcastPoint[] = series
+    .filter(entry => entry?.time)
+    .map(entry => {
+      const rate = entry?.data?.instant?.details?.precipitation_rate
+      return { time: entry.time, precipitationRate: typeof rate === 'number' ? rate : null }
+    })
+  if (!points.some(p => p.precipitationRate !== null)) return null
+  return {
+    updatedAt: data?.properties?.meta?.updated_at || new Date().toISOString(),
+    points
+  }
+}
+
+export const fetchNowcast = async (location: ForecastLocation): Promise<NowcastResult> => {
+  const query = new URLSearchParams({
+    lat: location.lat.toFixed(4),
+    lon: location.lon.toFixed(4)
+  })
+  try {
+    const result = await fetchMetJson(`${NOWCAST_URL}?${query.toString()}`)
+    // "temporarily unavailable" and "no coverage" come back as 200 without usable rates
+    const coverage = result.data?.properties?.meta?.radar_coverage
+    const payload = coverage && coverage !== 'ok' ? null : transformNowcast(result.data)
+    return { payload, expires: result.expires }
+  } catch (err) {
+    // 422: coordinates outside the nowcast area
+    if (err instanceof HttpError && (err.status === 422 || err.status === 400)) return { payload: null, expires: null }
+    throw err
+  }
+}
+
+interface NowcastSvgOptions {
+  config: IMConfig
+  title: string
+  translate: Translate
+  locale?: string
+  timeZone?: string
+}
+
+/** Bar chart of precipitation intensity with a "now" marker, styled like the meteogram. */
+export const generateNowcastSvg = (nowcast: NowcastPayload, { config, title, translate, locale, timeZone }: NowcastSvgOptions): string => {
+  const width = 960
+  const height = 360
+  const margin = { top: 72, right: 36, bottom: 56, left: 72 }
+  const innerWidth = width - margin.left - margin.right
+  const innerHeight = height - margin.top - margin.bottom
+
+  const unit = config.precipitationUnit
+  const times = nowcast.points.map(p => new Date(p.time).getTime())
+  const start = times[0]
+  const stepMs = times.length > 1 ? times[1] - times[0] : 5 * MINUTE_MS
+  const end = times[times.length - 1] + stepMs
+  const xAt = (time: number) => margin.left + (time - start) / (end - start) * innerWidth
+
+  const rates = nowcast.points.map(p => convertPrecipitation(p.precipitationRate ?? 0, unit))
+  const rateMax = Math.max(...rates, convertPrecipitation(1, unit))
+  const yAt = (value: number) => margin.top + innerHeight - value / rateMax * innerHeight
+
+  const clockFormatter = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone })
+
+  const bars = nowcast.points.map((p, i) => {
+    if (p.precipitationRate === null || rates[i] <= 0) return ''
+    const x = xAt(times[i]) + 1
+    const barWidth = Math.max(1, xAt(times[i] + stepMs) - xAt(times[i]) - 2)
+    const barHeight = Math.max(2, margin.top + innerHeight - yAt(rates[i]))
+    return `<rect x="${x.toFixed(2)}" y="${(margin.top + innerHeight - barHeight).toFixed(2)}" width="${barWidth.toFixed(2)}" height="${barHeight.toFixed(2)}" fill="${config.precipitationBarColor}" />`
+  }).join('')
+
+  const step = niceStep(rateMax, 4)
+  const yTicks: string[] = []
+  for (let val = 0; val <= rateMax + step * 1e-6; val += step) {
+    const y = yAt(val).toFixed(2)
+    yTicks.push(`<line x1="${margin.left}" y1="${y}" x2="${width - margin.right}" y2="${y}" stroke="${config.gridLineColor}" stroke-width="${config.gridLineWidth}" stroke-opacity="${config.gridLineOpacity}" />`)
+    yTicks.push(`<text x="${margin.left - 10}" y="${y}" text-anchor="end" dominant-baseline="middle" font-size="12" fill="${config.secondaryTextColor}">${val.toFixed(stepDecimals(step))}</text>`)
+  }
+
+  // A label every quarter of an hour
+  const xLabels: string[] = []
+  for (let t = Math.ceil(start / (15 * MINUTE_MS)) * 15 * MINUTE_MS; t <= end; t += 15 * MINUTE_MS) {
+    xLabels.push(`<text x="${xAt(t).toFixed(2)}" y="${height - margin.bottom + 20}" text-anchor="middle" font-size="12" fill="${config.mainTextColor}">${clockFormatter.format(new Date(t))}</text>`)
+  }
+
+  const now = Date.now()
+  const nowMarker = now >= start && now <= end
+    ? `<line x1="${xAt(now).toFixed(2)}" y1="${margin.top}" x2="${xAt(now).toFixed(2)}" y2="${margin.top + innerHeight}" stroke="${config.mainTextColor}" stroke-width="1.5" stroke-dasharray="4 3" />
+    <text x="${xAt(now).toFixed(2)}" y="${margin.top - 6}" text-anchor="middle" font-size="11" fill="${config.mainTextColor}">${escapeXml(translate('nowcastNow'))}</text>`
+    : ''
+
+  const total = nowcast.points.reduce((sum, p) => sum + (p.precipitationRate ?? 0) * stepMs / (60 * MINUTE_MS), 0)
+  const summary = total < 0.05
+    ? translate('nowcastDry')
+    : translate('nowcastAmount', { amount: convertPrecipitation(total, unit).toFixed(precipitationDecimals(unit)), unit: precipitationSymbol(unit) })
+  const updated = translate('updatedAt', { time: clockFormatter.format(new Date(nowcast.updatedAt)) })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" role="img" aria-labelledby="nowcastTitle nowcastDesc">
+  <title id="nowcastTitle">${escapeXml(translate('nowcastTitle'))}</title>
+  <desc id="nowcastDesc">${escapeXml(`${summary}. ${translate('nowcastDescription')}`)}</desc>
+  <rect x="0" y="0" width="${width}" height="${height}" fill="${config.overallBackground}" />
+  <g font-family="sans-serif">
+    <text x="${margin.left}" y="32" font-size="20" fill="${config.mainTextColor}">${escapeXml(title)}</text>
+    <text x="${margin.left}" y="52" font-size="12" fill="${config.secondaryTextColor}">${escapeXml(`${summary} · ${updated} · ${translate('dataFrom', { source: 'MET Norway' })}`)}</text>
+  </g>
+  <g>
+    ${yTicks.join('')}
+    ${bars}
+    ${nowMarker}
+  </g>
+  <g>
+    ${xLabels.join('')}
+    <line x1="${margin.left}" y1="${margin.top + innerHeight}" x2="${width - margin.right}" y2="${margin.top + innerHeight}" stroke="${config.gridLineColor}" stroke-width="1" stroke-opacity="${config.gridLineOpacity}" />
+  </g>
+  <text x="${margin.left}" y="${margin.top - 20}" font-size="12" fill="${config.mainTextColor}">${escapeXml(translate('nowcastAxis', { unit: precipitationSymbol(unit) }))}</text>
+</svg>`
+}
@@ -0,0 +1,67 @@
+import { DataSourceTypes, JimuFieldType, EsriFieldType, type DataSourceJson, type IMDataSourceJson, type FieldSchema } from 'jimu-core'
+import { type Coordinates, type ForecastPayload } from './types'
+
+export const getOutputDataSourceId = (widgetId: string): string => `${widgetId}_forecast_output`
+
+const field = (name: string, alias: string, type: JimuFieldType, esriType: EsriFieldType): FieldSchema => ({
+  jimuName: name,
+  name,
+  alias,
+  type,
+  esriType
+})
+
+export const OUTPUT_FIELDS: { [name: string]: FieldSchema } = {
+  OBJECTID: field('OBJECTID', 'OBJECTID', JimuFieldType.Number, EsriFieldType.OID),
+  TIME: field('TIME', 'Time', JimuFieldType.Date, EsriFieldType.Date),
+  TEMPERATURE: field('TEMPERATURE', 'Temperature', JimuFieldType.Number, EsriFieldType.Double),
+  WIND_SPEED: field('WIND_SPEED', 'Wind speed', JimuFieldType.Number, EsriFieldType.Double),
+  WIND_GUST: field('WIND_GUST', 'Wind gust', JimuFieldType.Number, EsriFieldType.Double),
+  WIND_DIRECTION: field('WIND_DIRECTION', 'Wind direction', JimuFieldType.Number, EsriFieldType.Double),
+  PRECIPITATION: field('PRECIPITATION', 'Precipitation', JimuFieldType.Number, EsriFieldType.Double)
+}
+
+export const getOutputDataSourceJson = (widgetId: string, label: string): DataSourceJson => ({
+  id: getOutputDataSourceId(widgetId),
+  type: DataSourceTypes.FeatureLayer,
+  label,
+  geometryType: 'esriGeometryPoint',
+  isDataInDataSourceInstance: true,
+  isOutputFromWidget: true,
+  schema: {
+    idField: 'OBJECTID',
+    fields: OUTPUT_FIELDS
+  }
+} as DataSourceJson)
+
+const SCHEMA_KEYS: Array<keyof FieldSchema> = ['jimuName', 'name', 'alias', 'type', 'esriType']
+
+/** Whether a stored output data source still has exactly the fields in OUTPUT_FIELDS. */
+export const hasCurrentOutputSchema = (json: IMDataSourceJson | null | undefined): boolean => {
+  const fields = json?.schema?.fields
+  if (!fields) return false
+  const names = Object.keys(fields)
+  return names.length === Object.keys(OUTPUT_FIELDS).length &&
+    names.every(name => OUTPUT_FIELDS[name] && SCHEMA_KEYS.every(key => fields[name]?.[key] === OUTPUT_FIELDS[name][key]))
+}
+
+/**
+ * One row per forecast point, all placed at the forecast location so map
+ * widgets can show where the rows came from.
+ */
+export const toOutputFeatures = (forecast: ForecastPayload, coords: Coordinates | null): __esri.GraphicProperties[] => {
+  return forecast.points.map((p, i) => ({
+    geometry: coords
+      ? { type: 'point', x: coords.lon, y: coords.lat, spatialReference: { wkid: 4326 } } as __esri.PointProperties
+      : null,
+    attributes: {
+      OBJECTID: i + 1,
+      TIME: new Date(p.time).getTime(),
+      TEMPERATURE: p.temperature,
+      WIND_SPEED: p.windSpeed,
+      WIND_GUST: p.windGust,
+      WIND_DIRECTION: p.windDirection,
+      PRECIPITATION: p.precipitation
+    }
+  }))
+}
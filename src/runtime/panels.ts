@@ -0,0 +1,124 @@
+import { niceStep, stepDecimals } from './units'
+
+/**
+ * Chart panel layout for the generated meteogram. Authors pick which panels
+ * appear and in what order; heights are shared out by weight so the original
+ * temperature / precipitation / wind split (55/25/20) is kept when only those
+ * three are shown.
+ */
+
+export type PanelId = 'temperature' | 'precipitation' | 'wind' | 'cloudCover' | 'humidity' | 'pressure' | 'dewPoint' | 'uvIndex'
+
+export const DEFAULT_PANELS: PanelId[] = ['temperature', 'precipitation', 'wind']
+
+export const PANEL_IDS: PanelId[] = [...DEFAULT_PANELS, 'cloudCover', 'humidity', 'pressure', 'dewPoint', 'uvIndex']
+
+const PANEL_WEIGHTS: { [id in PanelId]: number } = {
+  temperature: 55,
+  precipitation: 25,
+  wind: 20,
+  cloudCover: 16,
+  humidity: 16,
+  pressure: 16,
+  dewPoint: 16,
+  uvIndex: 14
+}
+
+// Plot height of the default three-panel chart; every further panel adds to it
+const BASE_PLOT_HEIGHT = 396
+const EXTRA_PANEL_HEIGHT = 80
+
+export interface PanelLayout {
+  id: PanelId
+  top: number
+  height: number
+}
+
+/** Known, de-duplicated panel ids in the configured order; never empty. */
+export const getPanels = (panels?: readonly string[] | null): PanelId[] => {
+  const valid = (panels ?? DEFAULT_PANELS)
+    .filter((id, i, all) => PANEL_IDS.includes(id as PanelId) && all.indexOf(id) === i) as PanelId[]
+  return valid.length ? valid : DEFAULT_PANELS
+}
+
+export const getPlotHeight = (panels: PanelId[]): number =>
+  BASE_PLOT_HEIGHT + Math.max(0, panels.length - DEFAULT_PANELS.length) * EXTRA_PANEL_HEIGHT
+
+export const layoutPanels = (panels: PanelId[], top: number, plotHeight: number): PanelLayout[] => {
+  const total = panels.reduce((sum, id) => sum + PANEL_WEIGHTS[id], 0)
+  let y = top
+  return panels.map(id => {
+    const height = plotHeight * PANEL_WEIGHTS[id] / total
+    const layout = { id, top: y, height }
+    y += height
+    return layout
+  })
+}
+
+export interface SeriesPanelOptions {
+  className: string
+  xs: number[]
+  // Index-aligned with `xs`; null leaves a gap in the line
+  values: Array<number | null>
+  top: number
+  height: number
+  left: number
+  right: number
+  // Axis bounds are widened to the data unless fixed
+  min: number
+  max: number
+  fixedRange?: boolean
+  color: string
+  fill: boolean
+  gridColor: string
+  gridOpacity: number
+  textColor: string
+  formatTick: (value: number, decimals: number) => string
+}
+
+/** Single-series line panel with right-hand ticks, used for the optional panels. */
+export const renderSeriesPanel = (options: SeriesPanelOptions): string => {
+  const { xs, values, top, height, left, right, color } = options
+  const defined = values.filter((v): v is number => v !== null)
+  if (!defined.length) return ''
+
+  let min = options.min
+  let max = options.max
+  if (!options.fixedRange) {
+    min = Math.min(min, ...defined)
+    max = Math.max(max, ...defined)
+  }
+  const range = max - min || 1
+  // Keep the line clear of the panel edges
+  const pad = Math.min(6, height * 0.1)
+  const y = (value: number) => top + pad + (max - value) / range * (height - pad * 2)
+
+  const step = niceStep(range, 3)
+  const ticks: string[] = []
+  for (let val = Math.ceil(min / step) * step; val <= max + step * 1e-6; val += step) {
+    const ty = y(val).toFixed(2)
+    ticks.push(`<line x1="${left}" y1="${ty}" x2="${right}" y2="${ty}" stroke="${options.gridColor}" stroke-width="0.5" stroke-opacity="${options.gridOpacity * 0.5}" />`)
+    ticks.push(`<text x="${right + 8}" y="${ty}" font-size="11" fill="${options.textColor}" dominant-baseline="middle">${options.formatTick(val, stepDecimals(step))}</text>`)
+  }
+
+  // One sub-path per run of defined values
+  const runs: number[][] = [[]]
+  values.forEach((value, i) => {
+    if (value === null) runs.push([])
+    else runs[runs.length - 1].push(i)
+  })
+  const lines: string[] = []
+  const areas: string[] = []
+  const base = (top + height).toFixed(2)
+  for (const run of runs.filter(r => r.length > 1)) {
+    const line = run.map((i, n) => `${n === 0 ? 'M' : 'L'}${xs[i].toFixed(2)},${y(values[i]).toFixed(2)}`).join(' ')
+    lines.push(line)
+    if (options.fill) areas.push(`${line} L${xs[run[run.length - 1]].toFixed(2)},${base} L${xs[run[0]].toFixed(2)},${base} Z`)
+  }
+
+  return `<g class="${options.className}">
+    ${ticks.join('')}
+    ${areas.length ? `<path d="${areas.join(' ')}" fill="${color}" fill-opacity="0.2" stroke="none" />` : ''}
+    <path d="${lines.join(' ')}" fill="none" stroke="${color}" stroke-width="2" />
+  </g>`
+}
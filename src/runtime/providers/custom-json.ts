@@ -0,0 +1,107 @@
+import { type ForecastPayload, type ForecastPoint } from '../types'
+import { isValidSymbolCode } from '../weather-symbols'
+import { fetchJson } from './fetch-json'
+import { type CustomFieldMapping, type ForecastProvider } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** Mapping that reads a locationforecast response, a sensible start for proxies of api.met.no. */
+export const DEFAULT_CUSTOM_FIELD_MAPPING: CustomFieldMapping = {
+  series: 'properties.timeseries',
+  time: 'time',
+  temperature: 'data.instant.details.air_temperature',
+  windSpeed: 'data.instant.details.wind_speed',
+  windGust: 'data.instant.details.wind_speed_of_gust',
+  windDirection: 'data.instant.details.wind_from_direction',
+  precipitation: 'data.next_1_hours.details.precipitation_amount',
+  symbolCode: 'data.next_1_hours.summary.symbol_code',
+  cloudCover: 'data.instant.details.cloud_area_fraction',
+  humidity: 'data.instant.details.relative_humidity',
+  pressure: 'data.instant.details.air_pressure_at_sea_level',
+  dewPoint: 'data.instant.details.dew_point_temperature',
+  uvIndex: 'data.instant.details.ultraviolet_index_clear_sky',
+  updatedAt: 'properties.meta.updated_at'
+}
+
+export const readPath = (source: any, path: string): unknown => {
+  if (!path) return undefined
+  return path.split('.').reduce((value, key) => value == null ? undefined : value[key], source)
+}
+
+const numberAt = (source: any, path: string): number | null => {
+  const value = readPath(source, path)
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null
+}
+
+// Accepts ISO strings and epoch seconds or milliseconds
+const toIsoTime = (value: unknown): string | null => {
+  const time = typeof value === 'number'
+    ? value < 1e12 ? value * 1000 : value
+    : typeof value === 'string' ? Date.parse(value) : NaN
+  return Number.isFinite(time) ? new Date(time).toISOString() : null
+}
+
+export const fillEndpointTemplate = (template: string, lat: number, lon: number, altitude?: number | null): string => template
+  .replace(/\{lat\}/g, encodeURIComponent(lat.toFixed(4)))
+  .replace(/\{lon\}/g, encodeURIComponent(lon.toFixed(4)))
+  .replace(/\{altitude\}/g, typeof altitude === 'number' ? Math.round(altitude).toString() : '')
+
+export const transformCustomForecast = (data: any, mapping: CustomFieldMapping): ForecastPayload | null => {
+  const series = readPath(data, mapping.series)
+  if (!Array.isArray(series)) return null
+
+  const points: ForecastPoint[] = []
+  for (const entry of series) {
+    const time = toIsoTime(readPath(entry, mapping.time))
+    const temperature = numberAt(entry, mapping.temperature)
+    const windSpeed = numberAt(entry, mapping.windSpeed)
+    if (!time || temperature === null || windSpeed === null) continue
+    const symbol = readPath(entry, mapping.symbolCode)
+    points.push({
+      time,
+      temperature,
+      windSpeed,
+      windGust: numberAt(entry, mapping.windGust),
+      windDirection: numberAt(entry, mapping.windDirection),
+      precipitation: numberAt(entry, mapping.precipitation),
+      periodHours: 1,
+      // Codes end up in chart markup, so only well-formed locationforecast codes are kept
+      symbolCode: isValidSymbolCode(symbol) ? symbol : null,
+      cloudAreaFraction: numberAt(entry, mapping.cloudCover),
+      relativeHumidity: numberAt(entry, mapping.humidity),
+      airPressure: numberAt(entry, mapping.pressure),
+      dewPoint: numberAt(entry, mapping.dewPoint),
+      uvIndex: numberAt(entry, mapping.uvIndex)
+    })
+  }
+  if (!points.length) return null
+
+  points.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+  // The step to the next point is the period its precipitation and symbol cover
+  points.forEach((point, i) => {
+    const next = points[i + 1] ?? null
+    const previous = points[i - 1] ?? null
+    const stepMs = next
+      ? new Date(next.time).getTime() - new Date(point.time).getTime()
+      : previous ? new Date(point.time).getTime() - new Date(previous.time).getTime() : HOUR_MS
+    point.periodHours = Math.max(1, Math.round(stepMs / HOUR_MS))
+  })
+
+  const updatedAt = toIsoTime(readPath(data, mapping.updatedAt))
+  return { updatedAt: updatedAt ?? new Date().toISOString(), points }
+}
+
+export const customJsonProvider: ForecastProvider = {
+  id: 'custom',
+  fetchForecast: async (location, options, signal) => {
+    if (!options.customEndpointUrl) throw new Error('No custom forecast endpoint configured.')
+    const url = fillEndpointTemplate(options.customEndpointUrl, location.lat, location.lon, location.altitude)
+    const mapping = { ...DEFAULT_CUSTOM_FIELD_MAPPING, ...options.customFieldMapping }
+
+    const { data, expires } = await fetchJson(url, signal)
+    const payload = transformCustomForecast(data, mapping)
+    if (!payload) throw new Error('No forecast points available.')
+    return { payload, expires, notModified: false, deprecated: false }
+  }
+}
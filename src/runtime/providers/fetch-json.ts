@@ -0,0 +1,13 @@
+import { HttpError, parseHttpDate, parseRetryAfter } from '../met-api'
+
+export interface JsonResponse {
+  data: any
+  expires: number | null
+}
+
+/** Plain JSON GET for providers without conditional request support. */
+export const fetchJson = async (url: string, signal?: AbortSignal): Promise<JsonResponse> => {
+  const res = await fetch(url, { credentials: 'omit', headers: { Accept: 'application/json' }, signal })
+  if (!res.ok) throw new HttpError(res.status, parseRetryAfter(res.headers.get('Retry-After')))
+  return { data: await res.json(), expires: parseHttpDate(res.headers.get('Expires')) }
+}
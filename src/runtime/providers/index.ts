@@ -0,0 +1,20 @@
+import { metNoCompactProvider, metNoCompleteProvider } from './metno'
+import { openMeteoProvider } from './open-meteo'
+import { customJsonProvider } from './custom-json'
+import { type ForecastProvider, type ForecastProviderId } from './types'
+
+export * from './types'
+export { DEFAULT_CUSTOM_FIELD_MAPPING } from './custom-json'
+
+const PROVIDERS: { [id in ForecastProviderId]: ForecastProvider } = {
+  'metno-compact': metNoCompactProvider,
+  'metno-complete': metNoCompleteProvider,
+  'open-meteo': openMeteoProvider,
+  custom: customJsonProvider
+}
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ForecastProviderId[]
+
+/** Unknown ids (e.g. from an older config) fall back to met.no compact. */
+export const getForecastProvider = (id: ForecastProviderId | string | undefined): ForecastProvider =>
+  PROVIDERS[id as ForecastProviderId] ?? metNoCompactProvider
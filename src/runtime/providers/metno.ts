@@ -0,0 +1,94 @@
+import { type ForecastPayload, type ForecastPoint } from '../types'
+import { fetchMetJson } from '../met-api'
+import { isValidSymbolCode } from '../weather-symbols'
+import { type ForecastProvider } from './types'
+
+const DEFAULT_BASE_URL = 'https://api.met.no/weatherapi/locationforecast/2.0'
+
+const numberOrNull = (value: unknown): number | null => typeof value === 'number' ? value : null
+
+/**
+ * Parses locationforecast 2.0. The compact and complete products share the
+ * structure; complete only adds more detail fields (dew point, UV index and
+ * the percentiles).
+ */
+export const transformMetNoForecast = (data: any): ForecastPayload | null => {
+  const updatedAt: string | undefined = data?.properties?.meta?.updated_at
+  const series: any[] = Array.isArray(data?.properties?.timeseries) ? data.properties.timeseries : []
+  if (!series.length) return null
+
+  const points: ForecastPoint[] = []
+  for (const entry of series) {
+    const time = entry?.time
+    const instant = entry?.data?.instant?.details ?? {}
+    if (!time || typeof instant.air_temperature !== 'number' || typeof instant.wind_speed !== 'number') continue
+
+    const next1 = entry?.data?.next_1_hours?.details ?? null
+    const next6 = entry?.data?.next_6_hours?.details ?? null
+    // Hourly steps carry next_1_hours; later steps are 6-hourly and only carry next_6_hours
+    const periodHours = entry?.data?.next_1_hours ? 1 : entry?.data?.next_6_hours ? 6 : 12
+    const period = periodHours === 1 ? next1 : periodHours === 6 ? next6 : null
+    const symbol = entry?.data?.next_1_hours?.summary?.symbol_code ??
+      entry?.data?.next_6_hours?.summary?.symbol_code ??
+      entry?.data?.next_12_hours?.summary?.symbol_code
+    // The base URL can point at a proxy, so the code is checked like any other source's
+    const symbolCode = isValidSymbolCode(symbol) ? symbol : null
+
+    points.push({
+      time,
+      temperature: instant.air_temperature,
+      windSpeed: instant.wind_speed,
+      windDirection: typeof instant.wind_from_direction === 'number' ? instant.wind_from_direction : null,
+      windGust: typeof instant.wind_speed_of_gust === 'number'
+        ? instant.wind_speed_of_gust
+        : typeof next1?.wind_speed_of_gust === 'number'
+          ? next1.wind_speed_of_gust
+          : typeof next6?.wind_speed_of_gust === 'number'
+            ? next6.wind_speed_of_gust
+            : null,
+      precipitation: numberOrNull(period?.precipitation_amount),
+      periodHours,
+      symbolCode,
+      cloudAreaFraction: numberOrNull(instant.cloud_area_fraction),
+      relativeHumidity: numberOrNull(instant.relative_humidity),
+      airPressure: numberOrNull(instant.air_pressure_at_sea_level),
+      dewPoint: numberOrNull(instant.dew_point_temperature),
+      uvIndex: numberOrNull(instant.ultraviolet_index_clear_sky),
+      temperatureP10: numberOrNull(instant.air_temperature_percentile_10),
+      temperatureP90: numberOrNull(instant.air_temperature_percentile_90),
+      windSpeedP10: numberOrNull(instant.wind_speed_percentile_10),
+      windSpeedP90: numberOrNull(instant.wind_speed_percentile_90),
+      precipitationMin: numberOrNull(period?.precipitation_amount_min),
+      precipitationMax: numberOrNull(period?.precipitation_amount_max)
+    })
+  }
+
+  if (!points.length) return null
+
+  return {
+    updatedAt: updatedAt || new Date().toISOString(),
+    source: 'MET Norway',
+    points
+  }
+}
+
+const createMetNoProvider = (id: 'metno-compact' | 'metno-complete', product: string): ForecastProvider => ({
+  id,
+  fetchForecast: async (location, options, signal) => {
+    // api.met.no rejects more than four decimals and only accepts whole metres
+    const query = new URLSearchParams({
+      lat: location.lat.toFixed(4),
+      lon: location.lon.toFixed(4)
+    })
+    if (typeof location.altitude === 'number') query.set('altitude', Math.round(location.altitude).toString())
+    const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')
+
+    const result = await fetchMetJson(`${baseUrl}/${product}?${query.toString()}`, signal)
+    const payload = transformMetNoForecast(result.data)
+    if (!payload) throw new Error('No forecast points available.')
+    return { payload, expires: result.expires, notModified: result.notModified, deprecated: result.deprecated }
+  }
+})
+
+export const metNoCompactProvider = createMetNoProvider('metno-compact', 'compact')
+export const metNoCompleteProvider = createMetNoProvider('metno-complete', 'complete')
@@ -0,0 +1,111 @@
+import { type ForecastPayload, type ForecastPoint } from '../types'
+import { fetchJson } from './fetch-json'
+import { type ForecastProvider } from './types'
+
+const DEFAULT_BASE_URL = 'https://api.open-meteo.com'
+const FORECAST_DAYS = 10
+const HOURLY_FIELDS = [
+  'temperature_2m', 'wind_speed_10m', 'wind_gusts_10m', 'wind_direction_10m', 'precipitation', 'weather_code', 'is_day',
+  'cloud_cover', 'relative_humidity_2m', 'pressure_msl', 'dew_point_2m', 'uv_index'
+]
+
+// WMO weather interpretation codes to locationforecast symbol names
+const WMO_SYMBOLS: { [code: number]: string } = {
+  0: 'clearsky',
+  1: 'fair',
+  2: 'partlycloudy',
+  3: 'cloudy',
+  45: 'fog',
+  48: 'fog',
+  51: 'lightrain',
+  53: 'lightrain',
+  55: 'rain',
+  56: 'lightsleet',
+  57: 'sleet',
+  61: 'lightrain',
+  63: 'rain',
+  65: 'heavyrain',
+  66: 'lightsleet',
+  67: 'heavysleet',
+  71: 'lightsnow',
+  73: 'snow',
+  75: 'heavysnow',
+  77: 'lightsnow',
+  80: 'lightrainshowers',
+  81: 'rainshowers',
+  82: 'heavyrainshowers',
+  85: 'lightsnowshowers',
+  86: 'heavysnowshowers',
+  95: 'rainandthunder',
+  96: 'heavyrainandthunder',
+  99: 'heavyrainandthunder'
+}
+
+// Only symbols drawn with a sun or moon have day and night variants
+const HAS_VARIANT = /^(clearsky|fair|partlycloudy|.*showers(andthunder)?)$/
+
+const toSymbolCode = (code: unknown, isDay: unknown): string | null => {
+  const name = typeof code === 'number' ? WMO_SYMBOLS[code] : undefined
+  if (!name) return null
+  return HAS_VARIANT.test(name) ? `${name}_${isDay === 0 ? 'night' : 'day'}` : name
+}
+
+const numberOrNull = (value: unknown): number | null => typeof value === 'number' && Number.isFinite(value) ? value : null
+
+/**
+ * Open-Meteo returns hourly columns. Precipitation and weather codes describe
+ * the hour *ending* at each time stamp, so they are read from the next step
+ * to match the "period following `time`" convention of `ForecastPoint`.
+ */
+export const transformOpenMeteoForecast = (data: any): ForecastPayload | null => {
+  const hourly = data?.hourly
+  const times: unknown[] = Array.isArray(hourly?.time) ? hourly.time : []
+  const column = (name: string, i: number): unknown => Array.isArray(hourly?.[name]) ? hourly[name][i] : undefined
+
+  const points: ForecastPoint[] = []
+  times.forEach((time, i) => {
+    const temperature = numberOrNull(column('temperature_2m', i))
+    const windSpeed = numberOrNull(column('wind_speed_10m', i))
+    if (typeof time !== 'number' || temperature === null || windSpeed === null) return
+    points.push({
+      time: new Date(time * 1000).toISOString(),
+      temperature,
+      windSpeed,
+      windGust: numberOrNull(column('wind_gusts_10m', i)),
+      windDirection: numberOrNull(column('wind_direction_10m', i)),
+      precipitation: numberOrNull(column('precipitation', i + 1)),
+      periodHours: 1,
+      symbolCode: toSymbolCode(column('weather_code', i + 1), column('is_day', i + 1)),
+      cloudAreaFraction: numberOrNull(column('cloud_cover', i)),
+      relativeHumidity: numberOrNull(column('relative_humidity_2m', i)),
+      airPressure: numberOrNull(column('pressure_msl', i)),
+      dewPoint: numberOrNull(column('dew_point_2m', i)),
+      uvIndex: numberOrNull(column('uv_index', i))
+    })
+  })
+
+  if (!points.length) return null
+  return { updatedAt: new Date().toISOString(), source: 'Open-Meteo.com', points }
+}
+
+export const openMeteoProvider: ForecastProvider = {
+  id: 'open-meteo',
+  fetchForecast: async (location, options, signal) => {
+    const query = new URLSearchParams({
+      latitude: location.lat.toFixed(4),
+      longitude: location.lon.toFixed(4),
+      hourly: HOURLY_FIELDS.join(','),
+      wind_speed_unit: 'ms',
+      timeformat: 'unixtime',
+      timezone: 'GMT',
+      forecast_days: FORECAST_DAYS.toString()
+    })
+    if (typeof location.altitude === 'number') query.set('elevation', Math.round(location.altitude).toString())
+    const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')
+
+    const { data, expires } = await fetchJson(`${baseUrl}/v1/forecast?${query.toString()}`, signal)
+    const payload = transformOpenMeteoForecast(data)
+    if (!payload) throw new Error('No forecast points available.')
+    return { payload, expires, notModified: false, deprecated: false }
+  }
+}
@@ -0,0 +1,51 @@
+import { type ForecastLocation, type ForecastPayload } from '../types'
+
+export type ForecastProviderId = 'metno-compact' | 'metno-complete' | 'open-meteo' | 'custom'
+
+/**
+ * Where the custom JSON provider finds each value. `series` points at the
+ * array of time steps in the response; every other path is read from one
+ * element of that array. Paths are dot separated and may contain array
+ * indices, e.g. `data.instant.details.air_temperature` or `values.0`.
+ * Values are expected in °C, m/s, degrees, mm, % and hPa.
+ */
+export interface CustomFieldMapping {
+  series: string
+  time: string
+  temperature: string
+  windSpeed: string
+  windGust: string
+  windDirection: string
+  precipitation: string
+  symbolCode: string
+  cloudCover: string
+  humidity: string
+  pressure: string
+  dewPoint: string
+  uvIndex: string
+  // Read from the response root
+  updatedAt: string
+}
+
+export interface ProviderOptions {
+  // Overrides the provider's default base URL, e.g. to go through an intranet proxy
+  baseUrl: string
+  // URL template for the custom provider with {lat}, {lon} and {altitude} placeholders
+  customEndpointUrl: string
+  customFieldMapping: CustomFieldMapping
+}
+
+export interface ProviderResult {
+  payload: ForecastPayload
+  // Epoch ms when the provider says new data may be available, null if it does not say
+  expires: number | null
+  // The data is unchanged since the previous request
+  notModified: boolean
+  // The provider flagged the product as deprecated
+  deprecated: boolean
+}
+
+export interface ForecastProvider {
+  id: ForecastProviderId
+  fetchForecast: (location: ForecastLocation, options: ProviderOptions, signal?: AbortSignal) => Promise<ProviderResult>
+}
@@ -0,0 +1,279 @@
+import { type Config, type IMConfig, type WindDirectionStyle } from './config'
+import { COLOR_RULE_TARGETS, COLOR_SETTINGS, type ColorRule } from './color-rules'
+
+/**
+ * Named colour palettes and the JSON style block. A preset fills in every
+ * colour setting at once; "Follow app theme" stores jimu theme variables, so
+ * the widget keeps following the app theme after the author picks it.
+ */
+
+export const STYLE_COLOR_KEYS = [
+  'overallBackground', 'logoColor', 'yrLogoBackgroundColor', 'yrLogoTextColor', 'yAxisIconColor', 'mainTextColor',
+  'secondaryTextColor', 'gridLineColor', 'temperatureLineColor', 'windLineColor', 'windGustLineColor', 'windDirectionColor',
+  'precipitationBarColor', 'maxPrecipitationColor', 'cloudCoverColor', 'humidityColor', 'pressureColor', 'dewPointColor',
+  'uvIndexColor', 'nightShadingColor', 'refreshButtonBackgroundColor', 'refreshButtonIconColor', 'expandButtonBackgroundColor',
+  'expandButtonIconColor', 'popupBackgroundColor', 'popupBoxShadowColor', 'maskColor', 'crosshairColor',
+  'tooltipBackgroundColor', 'tooltipTextColor', 'tooltipBorderColor'
+] as const
+
+const STYLE_NUMBER_KEYS = [
+  'padding', 'gridLineWidth', 'gridLineOpacity', 'nightShadingOpacity', 'expandButtonBorderRadius', 'popupPadding',
+  'popupBorderRadius', 'popupBoxShadowOffsetX', 'popupBoxShadowOffsetY', 'popupBoxShadowBlur', 'popupBoxShadowSpread',
+  'tooltipBorderRadius'
+] as const
+
+export type StyleColorKey = typeof STYLE_COLOR_KEYS[number]
+
+type StyleNumberKey = typeof STYLE_NUMBER_KEYS[number]
+
+export type StyleSettings = Pick<Config, StyleColorKey | StyleNumberKey | 'windDirectionStyle' | 'blockPage' | 'colorRules'>
+
+type Palette = { [key in StyleColorKey]: string }
+
+export type StylePresetId = 'yr-classic' | 'dark' | 'high-contrast' | 'app-theme'
+
+export const STYLE_PRESET_IDS: StylePresetId[] = ['yr-classic', 'dark', 'high-contrast', 'app-theme']
+
+const YR_CLASSIC: Palette = {
+  overallBackground: '#FFFFFF',
+  logoColor: '#21292B',
+  yrLogoBackgroundColor: '#00B9F1',
+  yrLogoTextColor: '#FFFFFF',
+  yAxisIconColor: '#56616C',
+  mainTextColor: '#21292B',
+  secondaryTextColor: '#56616C',
+  gridLineColor: '#C3D0D8',
+  temperatureLineColor: '#C60000',
+  windLineColor: '#AA00F2',
+  windGustLineColor: '#E6D300',
+  windDirectionColor: '#56616C',
+  precipitationBarColor: '#006EDB',
+  maxPrecipitationColor: '#00B8F1',
+  cloudCoverColor: '#8A9BA8',
+  humidityColor: '#00A3A3',
+  pressureColor: '#6B4FBB',
+  dewPointColor: '#2E8540',
+  uvIndexColor: '#F28500',
+  nightShadingColor: '#1F3A5F',
+  refreshButtonBackgroundColor: '#FFFFFFB3',
+  refreshButtonIconColor: '#333333',
+  expandButtonBackgroundColor: '#333333',
+  expandButtonIconColor: '#FFFFFF',
+  popupBackgroundColor: '#FFFFFF',
+  popupBoxShadowColor: '#00000066',
+  maskColor: '#00000080',
+  crosshairColor: '#56616C',
+  tooltipBackgroundColor: '#FFFFFFF2',
+  tooltipTextColor: '#21292B',
+  tooltipBorderColor: '#C3D0D8'
+}
+
+const DARK: Palette = {
+  overallBackground: '#1B1F23',
+  logoColor: '#E6EDF3',
+  yrLogoBackgroundColor: '#00B9F1',
+  yrLogoTextColor: '#FFFFFF',
+  yAxisIconColor: '#9AA7B2',
+  mainTextColor: '#E6EDF3',
+  secondaryTextColor: '#9AA7B2',
+  gridLineColor: '#3A444D',
+  temperatureLineColor: '#FF6B6B',
+  windLineColor: '#C77DFF',
+  windGustLineColor: '#F2E14C',
+  windDirectionColor: '#9AA7B2',
+  precipitationBarColor: '#4DA3FF',
+  maxPrecipitationColor: '#7FD4FF',
+  cloudCoverColor: '#A9B6C1',
+  humidityColor: '#3CC9C9',
+  pressureColor: '#A18CF0',
+  dewPointColor: '#5CC07A',
+  uvIndexColor: '#FFA94D',
+  nightShadingColor: '#000000',
+  refreshButtonBackgroundColor: '#2B3138B3',
+  refreshButtonIconColor: '#E6EDF3',
+  expandButtonBackgroundColor: '#E6EDF3',
+  expandButtonIconColor: '#1B1F23',
+  popupBackgroundColor: '#1B1F23',
+  popupBoxShadowColor: '#000000B3',
+  maskColor: '#000000B3',
+  crosshairColor: '#9AA7B2',
+  tooltipBackgroundColor: '#2B3138F2',
+  tooltipTextColor: '#E6EDF3',
+  tooltipBorderColor: '#3A444D'
+}
+
+const HIGH_CONTRAST: Palette = {
+  overallBackground: '#FFFFFF',
+  logoColor: '#000000',
+  yrLogoBackgroundColor: '#000000',
+  yrLogoTextColor: '#FFFFFF',
+  yAxisIconColor: '#000000',
+  mainTextColor: '#000000',
+  secondaryTextColor: '#000000',
+  gridLineColor: '#595959',
+  temperatureLineColor: '#D00000',
+  windLineColor: '#7A00CC',
+  windGustLineColor: '#8A6D00',
+  windDirectionColor: '#000000',
+  precipitationBarColor: '#0050B3',
+  maxPrecipitationColor: '#0050B3',
+  cloudCoverColor: '#404040',
+  humidityColor: '#006B6B',
+  pressureColor: '#4B0082',
+  dewPointColor: '#006400',
+  uvIndexColor: '#B34700',
+  nightShadingColor: '#000000',
+  refreshButtonBackgroundColor: '#FFFFFF',
+  refreshButtonIconColor: '#000000',
+  expandButtonBackgroundColor: '#000000',
+  expandButtonIconColor: '#FFFFFF',
+  popupBackgroundColor: '#FFFFFF',
+  popupBoxShadowColor: '#000000',
+  maskColor: '#000000CC',
+  crosshairColor: '#000000',
+  tooltipBackgroundColor: '#FFFFFF',
+  tooltipTextColor: '#000000',
+  tooltipBorderColor: '#000000'
+}
+
+const themeColor = (variable: string, fallback: string): string => `var(--sys-color-${variable}, ${fallback})`
+
+// Series without a theme counterpart keep the Yr colours, which read on light and dark surfaces alike
+const APP_THEME: Palette = {
+  ...YR_CLASSIC,
+  overallBackground: themeColor('surface-paper', '#FFFFFF'),
+  logoColor: themeColor('surface-paper-text', '#21292B'),
+  yrLogoBackgroundColor: themeColor('primary-main', '#00B9F1'),
+  yrLogoTextColor: themeColor('primary-text', '#FFFFFF'),
+  yAxisIconColor: themeColor('surface-paper-hint', '#56616C'),
+  mainTextColor: themeColor('surface-paper-text', '#21292B'),
+  secondaryTextColor: themeColor('surface-paper-hint', '#56616C'),
+  gridLineColor: themeColor('divider-secondary', '#C3D0D8'),
+  temperatureLineColor: themeColor('error-main', '#C60000'),
+  windDirectionColor: themeColor('surface-paper-hint', '#56616C'),
+  precipitationBarColor: themeColor('info-main', '#006EDB'),
+  dewPointColor: themeColor('success-main', '#2E8540'),
+  uvIndexColor: themeColor('warning-main', '#F28500'),
+  nightShadingColor: themeColor('surface-paper-text', '#1F3A5F'),
+  refreshButtonBackgroundColor: themeColor('surface-paper', '#FFFFFF'),
+  refreshButtonIconColor: themeColor('surface-paper-text', '#333333'),
+  expandButtonBackgroundColor: themeColor('primary-main', '#333333'),
+  expandButtonIconColor: themeColor('primary-text', '#FFFFFF'),
+  popupBackgroundColor: themeColor('surface-overlay', '#FFFFFF'),
+  crosshairColor: themeColor('surface-paper-hint', '#56616C'),
+  tooltipBackgroundColor: themeColor('surface-overlay', '#FFFFFF'),
+  tooltipTextColor: themeColor('surface-overlay-text', '#21292B'),
+  tooltipBorderColor: themeColor('divider-secondary', '#C3D0D8')
+}
+
+export const STYLE_PRESETS: { [id in StylePresetId]: Palette } = {
+  'yr-classic': YR_CLASSIC,
+  dark: DARK,
+  'high-contrast': HIGH_CONTRAST,
+  'app-theme': APP_THEME
+}
+
+/** The preset whose colours the config uses, or null once any colour was changed by hand. */
+export const findStylePreset = (config: IMConfig): StylePresetId | null =>
+  STYLE_PRESET_IDS.find(id => STYLE_COLOR_KEYS.every(key =>
+    (config[key] ?? '').toLowerCase() === STYLE_PRESETS[id][key].toLowerCase())) ?? null
+
+const THEME_VARIABLE = /^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/
+
+const isThemeReference = (value: string | null | undefined): boolean => !!value && THEME_VARIABLE.test(value.trim())
+
+const resolveThemeColor = (value: string, styles: CSSStyleDeclaration): string => {
+  const match = THEME_VARIABLE.exec(value.trim())
+  if (!match) return value
+  const resolved = styles.getPropertyValue(match[1]).trim()
+  if (resolved) return resolved
+  return match[2] ? resolveThemeColor(match[2].trim(), styles) : value
+}
+
+/**
+ * Colours with theme variables swapped for their current values as seen from
+ * `element`. CSS resolves var() by itself, but SVG attributes and canvas
+ * paint need plain colours.
+ */
+export const resolveThemeColors = (config: IMConfig, element: Element): IMConfig => {
+  const keys = STYLE_COLOR_KEYS.filter(key => isThemeReference(config[key]))
+  if (!keys.length) return config
+  const styles = window.getComputedStyle(element)
+  return keys.reduce((resolved, key) => resolved.set(key, resolveThemeColor(config[key], styles)), config)
+}
+
+const STYLE_FILE_TYPE = 'yr-weather-style'
+
+const STYLE_FILE_VERSION = 1
+
+const WIND_DIRECTION_STYLES: WindDirectionStyle[] = ['arrows', 'barbs', 'none']
+
+/** The style block of `config` as a JSON document for reuse in other apps. */
+export const toStyleJson = (config: IMConfig): string => {
+  const style: { [key: string]: unknown } = {}
+  STYLE_COLOR_KEYS.forEach(key => { style[key] = config[key] })
+  STYLE_NUMBER_KEYS.forEach(key => { style[key] = config[key] })
+  style.windDirectionStyle = config.windDirectionStyle
+  style.blockPage = config.blockPage
+  style.colorRules = config.colorRules ? config.colorRules.asMutable({ deep: true }) : null
+  return JSON.stringify({ type: STYLE_FILE_TYPE, version: STYLE_FILE_VERSION, style }, null, 2)
+}
+
+// Colours end up in scoped CSS, so they get the same guard as colour rules
+const isValidColor = (value: unknown): value is string =>
+  typeof value === 'string' && !!value.trim() && !/[{}<;]/.test(value) &&
+  (typeof CSS === 'undefined' || CSS.supports('color', value))
+
+const toColorRule = (value: any): ColorRule | null => {
+  if (typeof value?.match !== 'string') return null
+  const colorSetting = COLOR_SETTINGS.find(setting => setting === value.colorSetting) ?? ''
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : `color-${Math.random().toString(36).slice(2, 10)}`,
+    match: value.match,
+    target: COLOR_RULE_TARGETS.includes(value.target) ? value.target : 'both',
+    colorSetting,
+    color: isValidColor(value.color) ? value.color : ''
+  }
+}
+
+export interface StyleImport {
+  style: Partial<StyleSettings>
+  // Known settings whose value was unusable
+  skipped: string[]
+}
+
+/**
+ * Reads a style block written by `toStyleJson`; a bare object of settings is
+ * accepted too. Unknown keys are ignored. Null when the text is not a style.
+ */
+export const parseStyleJson = (text: string): StyleImport | null => {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (err) {
+    return null
+  }
+  const source = data?.type === STYLE_FILE_TYPE ? data.style : data
+  if (!source || typeof source !== 'object' || Array.isArray(source)) return null
+
+  const style: { [key: string]: unknown } = {}
+  const skipped: string[] = []
+  const accept = (key: string, valid: boolean, value: unknown = source[key]) => {
+    if (!(key in source)) return
+    if (valid) style[key] = value
+    else skipped.push(key)
+  }
+  STYLE_COLOR_KEYS.forEach(key => { accept(key, isValidColor(source[key])) })
+  STYLE_NUMBER_KEYS.forEach(key => { accept(key, typeof source[key] === 'number' && Number.isFinite(source[key])) })
+  accept('windDirectionStyle', WIND_DIRECTION_STYLES.includes(source.windDirectionStyle))
+  accept('blockPage', typeof source.blockPage === 'boolean')
+  if (source.colorRules === null) {
+    accept('colorRules', true)
+  } else {
+    const rules = Array.isArray(source.colorRules) ? source.colorRules.map(toColorRule) : null
+    accept('colorRules', !!rules && rules.every(rule => rule !== null), rules)
+  }
+
+  if (!Object.keys(style).length && !skipped.length) return null
+  return { style: style as Partial<StyleSettings>, skipped }
+}
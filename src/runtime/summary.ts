@@ -0,0 +1,45 @@
+import { type ForecastPayload, type Translate } from './types'
+import {
+  type UnitSettings, convertTemperature, convertWind, convertPrecipitation, temperatureSymbol, windSymbol, precipitationSymbol,
+  precipitationDecimals
+} from './units'
+
+/**
+ * One-sentence description of the forecast for screen readers, e.g.
+ * "Next 24h: 3 to 9 °C, 4 mm precipitation, gusts up to 14 m/s".
+ * The wording comes from the runtime messages `summary*`.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const SUMMARY_HOURS = 24
+
+export const summarizeForecast = (forecast: ForecastPayload, units: UnitSettings, translate: Translate, hours = SUMMARY_HOURS): string => {
+  const { temperatureUnit, windUnit, precipitationUnit } = units
+  if (!forecast?.points.length) return ''
+  const start = new Date(forecast.points[0].time).getTime()
+  const points = forecast.points.filter(p => new Date(p.time).getTime() < start + hours * HOUR_MS)
+  const last = points[points.length - 1]
+  const coveredHours = Math.min(hours, Math.round((new Date(last.time).getTime() - start) / HOUR_MS) + last.periodHours)
+
+  const temperatures = points.map(p => convertTemperature(p.temperature, temperatureUnit))
+  const low = Math.round(Math.min(...temperatures))
+  const high = Math.round(Math.max(...temperatures))
+  const temperatureText = low === high
+    ? `${low} ${temperatureSymbol(temperatureUnit)}`
+    : translate('summaryTemperatureRange', { low, high, unit: temperatureSymbol(temperatureUnit) })
+
+  const precipitation = convertPrecipitation(points.reduce((sum, p) => sum + (p.precipitation ?? 0), 0), precipitationUnit)
+  const precipitationText = precipitation > 0
+    ? translate('summaryPrecipitation', {
+      amount: precipitation.toFixed(precipitationDecimals(precipitationUnit)).replace(/\.0+$/, ''),
+      unit: precipitationSymbol(precipitationUnit)
+    })
+    : translate('summaryNoPrecipitation')
+
+  const gusts = points.map(p => p.windGust).filter((v): v is number => typeof v === 'number')
+  const windText = gusts.length
+    ? translate('summaryGusts', { speed: Math.round(convertWind(Math.max(...gusts), windUnit)), unit: windSymbol(windUnit) })
+    : translate('summaryWind', { speed: Math.round(convertWind(Math.max(...points.map(p => p.windSpeed)), windUnit)), unit: windSymbol(windUnit) })
+
+  return translate('summary', { hours: coveredHours, temperature: temperatureText, precipitation: precipitationText, wind: windText })
+}
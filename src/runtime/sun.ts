@@ -0,0 +1,105 @@
+import { type ForecastLocation, type SunDay } from './types'
+import { fetchMetJson } from './met-api'
+import { readCachedSunDay, writeCachedSunDay, getCacheKey } from './forecast-cache'
+
+/**
+ * Sunrise and sunset from the met.no Sunrise 3.0 API. Days are requested in
+ * UTC, looked up in memory first, then in IndexedDB, and only then fetched.
+ */
+
+const SUNRISE_URL = 'https://api.met.no/weatherapi/sunrise/3.0/sun'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const memoryCache = new Map<string, SunDay>()
+
+/** UTC dates (YYYY-MM-DD) touched by the interval. */
+export const getUtcDates = (start: number, end: number): string[] => {
+  const dates: string[] = []
+  for (let t = Math.floor(start / DAY_MS) * DAY_MS; t <= end; t += DAY_MS) {
+    dates.push(new Date(t).toISOString().slice(0, 10))
+  }
+  return dates
+}
+
+const transformSunDay = (date: string, data: any): SunDay => {
+  const props = data?.properties ?? {}
+  const sunrise: string | null = props.sunrise?.time ?? null
+  const sunset: string | null = props.sunset?.time ?? null
+  let polar: SunDay['polar'] = null
+  if (!sunrise && !sunset) {
+    const elevation = props.solarnoon?.disc_centre_elevation
+    polar = props.solarnoon?.visible === true || (typeof elevation === 'number' && elevation > 0) ? 'day' : 'night'
+  }
+  return { date, sunrise, sunset, polar, fetchedAt: Date.now() }
+}
+
+const fetchSunDay = async (location: ForecastLocation, date: string): Promise<SunDay> => {
+  const query = new URLSearchParams({
+    lat: location.lat.toFixed(4),
+    lon: location.lon.toFixed(4),
+    date,
+    offset: '+00:00'
+  })
+  const result = await fetchMetJson(`${SUNRISE_URL}?${query.toString()}`)
+  return transformSunDay(date, result.data)
+}
+
+const getSunDay = async (location: ForecastLocation, date: string): Promise<SunDay> => {
+  const key = `${getCacheKey(location)}|${date}`
+  const remembered = memoryCache.get(key)
+  if (remembered) return remembered
+
+  let day = await readCachedSunDay(location, date)
+  if (!day) {
+    day = await fetchSunDay(location, date)
+    writeCachedSunDay(location, day)
+  }
+  memoryCache.set(key, day)
+  return day
+}
+
+export const getSunDays = (location: ForecastLocation, dates: string[]): Promise<SunDay[]> =>
+  Promise.all(dates.map(date => getSunDay(location, date)))
+
+/**
+ * Night intervals (epoch ms) within [start, end]. Polar nights cover their
+ * whole day; adjacent intervals are merged so shading never doubles up.
+ */
+export const getNightIntervals = (days: SunDay[], start: number, end: number): Array<[number, number]> => {
+  const events: Array<{ time: number, rise: boolean }> = []
+  for (const day of days) {
+    const dayStart = Date.parse(`${day.date}T00:00:00Z`)
+    if (day.polar === 'night') {
+      events.push({ time: dayStart, rise: false }, { time: dayStart + DAY_MS, rise: true })
+    } else if (day.polar === 'day') {
+      events.push({ time: dayStart, rise: true })
+    }
+    if (day.sunrise) events.push({ time: Date.parse(day.sunrise), rise: true })
+    if (day.sunset) events.push({ time: Date.parse(day.sunset), rise: false })
+  }
+  events.sort((a, b) => a.time - b.time)
+
+  const intervals: Array<[number, number]> = []
+  // Before the first event the sun is down if that event brings it up
+  let nightStart: number | null = events.length && events[0].rise ? start : null
+  for (const event of events) {
+    if (event.rise && nightStart !== null) {
+      intervals.push([nightStart, event.time])
+      nightStart = null
+    } else if (!event.rise && nightStart === null) {
+      nightStart = event.time
+    }
+  }
+  if (nightStart !== null) intervals.push([nightStart, end])
+
+  const merged: Array<[number, number]> = []
+  for (const [from, to] of intervals) {
+    const a = Math.max(from, start)
+    const b = Math.min(to, end)
+    if (b <= a) continue
+    const last = merged[merged.length - 1]
+    if (last && a <= last[1]) last[1] = Math.max(last[1], b)
+    else merged.push([a, b])
+  }
+  return merged
+}
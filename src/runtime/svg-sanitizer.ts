@@ -0,0 +1,171 @@
+/**
+ * Allow-list cleaning of SVG markup before it is injected into the page. The
+ * source URL and the fallback code can hold anything, so only drawing
+ * elements, presentation attributes and local references are kept. Content
+ * that could run script or load from elsewhere is reported so the widget can
+ * refuse the whole image rather than show a half-cleaned copy.
+ */
+
+// Lower-cased, since an XML tag like <SCRIPT> becomes a real script once the markup is parsed as HTML
+const SVG_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'title', 'desc', 'symbol', 'use', 'image', 'switch', 'a',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'textpath',
+  'lineargradient', 'radialgradient', 'stop', 'pattern', 'clippath', 'mask', 'marker',
+  'foreignobject'
+])
+
+// Plain text markup that yr.no style charts put inside <foreignObject>
+const HTML_ELEMENTS = new Set(['div', 'span', 'p', 'br', 'b', 'strong', 'i', 'em', 'small', 'sub', 'sup'])
+
+// Never harmless, so finding one rejects the image instead of dropping the element
+const UNSAFE_ELEMENTS = new Set([
+  'script', 'iframe', 'frame', 'object', 'embed', 'applet', 'base', 'link', 'meta',
+  'form', 'input', 'button', 'textarea', 'animate', 'set', 'handler', 'listener'
+])
+
+// No `filter`, like no <style> or <filter> element: the widget's scoped CSS restyles the chart
+const ALLOWED_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'transform', 'role', 'lang', 'xml:lang', 'xml:space', 'xmlns', 'xmlns:xlink', 'version',
+  'viewbox', 'preserveaspectratio', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy',
+  'width', 'height', 'd', 'points', 'dx', 'dy', 'rotate', 'textlength', 'lengthadjust', 'pathlength',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'opacity', 'color',
+  'display', 'visibility', 'overflow', 'clip-path', 'clip-rule', 'mask', 'paint-order', 'vector-effect',
+  'shape-rendering', 'text-rendering', 'font-family', 'font-size', 'font-weight', 'font-style',
+  'text-anchor', 'dominant-baseline', 'alignment-baseline', 'baseline-shift', 'letter-spacing',
+  'word-spacing', 'text-decoration', 'stop-color', 'stop-opacity', 'offset', 'spreadmethod',
+  'gradientunits', 'gradienttransform', 'patternunits', 'patterncontentunits', 'patterntransform',
+  'clippathunits', 'maskunits', 'maskcontentunits', 'markerwidth', 'markerheight', 'markerunits',
+  'refx', 'refy', 'orient', 'marker-start', 'marker-mid', 'marker-end', 'startoffset',
+  'href', 'xlink:href', 'target', 'rel'
+])
+
+// Their content becomes HTML when the markup is injected, so only their text is kept
+const TEXT_ONLY_ELEMENTS = new Set(['title', 'desc'])
+
+const URL_ATTRIBUTES = new Set(['href', 'xlink:href'])
+
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:']
+
+const EMBEDDED_IMAGE = /^data:image\/(png|jpe?g|gif|webp);/
+
+// Browsers ignore control characters and spaces when reading a URL scheme
+const normalizeUrl = (value: string): string =>
+  value.replace(/[\u0000- \u007f]/g, '').toLowerCase()
+
+const getScheme = (url: string): string | null => /^[a-z][a-z0-9+.-]*:/.exec(url)?.[0] ?? null
+
+const isAllowedUrl = (element: string, value: string): boolean => {
+  const url = normalizeUrl(value)
+  if (url.startsWith('#')) return true
+  // Links may go anywhere a normal web link can; everything else only refers into this image
+  if (element === 'a') {
+    const scheme = getScheme(url)
+    return scheme === null || LINK_SCHEMES.includes(scheme)
+  }
+  return element === 'image' && EMBEDDED_IMAGE.test(url)
+}
+
+// url(...) in paint and style values: only references to elements of the same image
+const hasExternalReference = (value: string): boolean =>
+  (value.match(/url\([^)]*\)/gi) ?? []).some(ref => !normalizeUrl(ref.slice(4, -1)).replace(/^['"]/, '').startsWith('#'))
+
+// CSS escapes are refused outright, as they can spell url( or a scheme past the checks above
+const isUnsafeStyle = (value: string): boolean =>
+  hasExternalReference(value) || /expression\(|javascript:|@import|behavior:|-moz-binding|\\/.test(normalizeUrl(value))
+
+const describeElement = (name: string): string => `<${name}>`
+
+/**
+ * Cleans `svg` in place and returns what made it unsafe, e.g. `<script>` or
+ * `onload`. Unknown but harmless markup such as editor metadata is dropped
+ * without a report; the image should not be shown when the list is not empty.
+ */
+export const sanitizeSvg = (svg: Element): string[] => {
+  const rejected = new Set<string>()
+
+  const clean = (element: Element, insideForeignObject: boolean): void => {
+    Array.from(element.childNodes).forEach(child => {
+      switch (child.nodeType) {
+        case Node.ELEMENT_NODE:
+          break
+        case Node.TEXT_NODE:
+          return
+        case Node.CDATA_SECTION_NODE:
+          // Serialized CDATA reads as a bogus comment in HTML and can close the element early
+          element.replaceChild(element.ownerDocument.createTextNode(child.nodeValue ?? ''), child)
+          return
+        default:
+          // Comments and processing instructions
+          child.remove()
+          return
+      }
+
+      const node = child as Element
+      const name = node.localName.toLowerCase()
+      if (UNSAFE_ELEMENTS.has(name)) {
+        rejected.add(describeElement(name))
+        node.remove()
+        return
+      }
+      const allowed = insideForeignObject ? HTML_ELEMENTS.has(name) : SVG_ELEMENTS.has(name)
+      if (!allowed) {
+        reportDropped(node)
+        node.remove()
+        return
+      }
+      cleanAttributes(node, name)
+      if (TEXT_ONLY_ELEMENTS.has(name)) node.replaceChildren(node.ownerDocument.createTextNode(node.textContent ?? ''))
+      else clean(node, insideForeignObject || name === 'foreignobject')
+    })
+  }
+
+  // Dropping an unknown element is not enough when it, or something inside it, was meant to run script
+  const reportDropped = (element: Element): void => {
+    [element, ...Array.from(element.querySelectorAll('*'))].forEach(node => {
+      const name = node.localName.toLowerCase()
+      if (UNSAFE_ELEMENTS.has(name)) rejected.add(describeElement(name))
+      Array.from(node.attributes).forEach(attribute => {
+        if (attribute.name.toLowerCase().startsWith('on')) rejected.add(attribute.name.toLowerCase())
+      })
+    })
+  }
+
+  const cleanAttributes = (element: Element, name: string): void => {
+    Array.from(element.attributes).forEach(attribute => {
+      const attributeName = attribute.name.toLowerCase()
+      const value = attribute.value
+      if (attributeName.startsWith('on')) {
+        rejected.add(attributeName)
+      } else if (URL_ATTRIBUTES.has(attributeName)) {
+        if (isAllowedUrl(name, value)) return
+        rejected.add(`${describeElement(name)} ${attributeName}`)
+      } else if (attributeName === 'style') {
+        if (!isUnsafeStyle(value)) return
+        rejected.add(`${describeElement(name)} style`)
+      } else if (ALLOWED_ATTRIBUTES.has(attributeName) || attributeName.startsWith('aria-') || attributeName.startsWith('data-')) {
+        if (!hasExternalReference(value)) return
+        rejected.add(`${describeElement(name)} ${attributeName}`)
+      }
+      element.removeAttributeNode(attribute)
+    })
+  }
+
+  const rootName = svg.localName.toLowerCase()
+  if (rootName !== 'svg') return [describeElement(rootName)]
+  cleanAttributes(svg, rootName)
+  clean(svg, false)
+  return Array.from(rejected)
+}
+
+/**
+ * Cleaned copy of an `<svg>` snippet the widget builds itself, such as an
+ * icon, or null when the markup does not parse or had to be rejected.
+ */
+export const sanitizeSvgMarkup = (markup: string): string | null => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml')
+  const svg = doc.documentElement
+  if (doc.querySelector('parsererror') || svg.localName !== 'svg') return null
+  return sanitizeSvg(svg).length ? null : new XMLSerializer().serializeToString(svg)
+}
@@ -0,0 +1,120 @@
+import { type ForecastPoint, type Translate } from './types'
+
+/**
+ * Operational limits set by the author, e.g. "gust > 15 m/s" for crane work.
+ * Thresholds are stated in °C, m/s and mm per hour whatever the display units
+ * are, so a rule keeps its meaning when someone switches the chart to mph.
+ */
+
+export type ThresholdVariable = 'temperature' | 'windSpeed' | 'windGust' | 'precipitation'
+export type ThresholdComparator = '>' | '>=' | '<' | '<='
+
+export interface ThresholdRule {
+  id: string
+  variable: ThresholdVariable
+  comparator: ThresholdComparator
+  threshold: number
+  color: string
+  // Badge text; empty uses "Limit exceeded"
+  label: string
+}
+
+export const THRESHOLD_VARIABLES: ThresholdVariable[] = ['temperature', 'windSpeed', 'windGust', 'precipitation']
+export const THRESHOLD_COMPARATORS: ThresholdComparator[] = ['>', '>=', '<', '<=']
+
+export const THRESHOLD_UNITS: { [variable in ThresholdVariable]: string } = {
+  temperature: '°C',
+  windSpeed: 'm/s',
+  windGust: 'm/s',
+  precipitation: 'mm/h'
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface RuleSpan {
+  // Epoch ms; `end` is where the last matching period ends
+  start: number
+  end: number
+  // Indices of the matching points
+  indices: number[]
+}
+
+export interface RuleMatch {
+  rule: ThresholdRule
+  spans: RuleSpan[]
+}
+
+export const createRule = (): ThresholdRule => ({
+  id: `rule-${Date.now().toString(36)}`,
+  variable: 'windGust',
+  comparator: '>',
+  threshold: 15,
+  color: '#D0021B',
+  label: ''
+})
+
+/** Rules that can be evaluated; half-edited ones are skipped rather than matching everything. */
+export const getRules = (rules?: readonly ThresholdRule[] | null): ThresholdRule[] =>
+  (rules ?? []).filter(rule =>
+    rule && THRESHOLD_VARIABLES.includes(rule.variable) && THRESHOLD_COMPARATORS.includes(rule.comparator) &&
+    typeof rule.threshold === 'number' && Number.isFinite(rule.threshold)
+  )
+
+// Variable names are the runtime messages `variableTemperature`, `variableWindSpeed` and so on
+export const describeRule = (rule: ThresholdRule, translate: Translate): string => {
+  const variable = translate(`variable${rule.variable.charAt(0).toUpperCase()}${rule.variable.slice(1)}`)
+  return `${variable} ${rule.comparator} ${rule.threshold} ${THRESHOLD_UNITS[rule.variable]}`
+}
+
+const getRuleValue = (point: ForecastPoint, variable: ThresholdVariable): number | null => {
+  switch (variable) {
+    case 'temperature':
+      return point.temperature
+    case 'windSpeed':
+      return point.windSpeed
+    case 'windGust':
+      return point.windGust
+    case 'precipitation':
+      // Amounts cover `periodHours`; rules speak of an hourly rate
+      return typeof point.precipitation === 'number' ? point.precipitation / Math.max(1, point.periodHours) : null
+  }
+}
+
+const compare = (value: number, comparator: ThresholdComparator, threshold: number): boolean => {
+  switch (comparator) {
+    case '>': return value > threshold
+    case '>=': return value >= threshold
+    case '<': return value < threshold
+    case '<=': return value <= threshold
+  }
+}
+
+/** Runs of consecutive points that meet the rule. */
+export const findRuleSpans = (points: ForecastPoint[], rule: ThresholdRule): RuleSpan[] => {
+  const spans: RuleSpan[] = []
+  let current: RuleSpan | null = null
+  points.forEach((point, i) => {
+    const value = getRuleValue(point, rule.variable)
+    if (value === null || !compare(value, rule.comparator, rule.threshold)) {
+      current = null
+      return
+    }
+    const start = new Date(point.time).getTime()
+    const next = points[i + 1]
+    const end = next ? new Date(next.time).getTime() : start + Math.max(1, point.periodHours) * HOUR_MS
+    if (current) {
+      current.end = end
+      current.indices.push(i)
+    } else {
+      current = { start, end, indices: [i] }
+      spans.push(current)
+    }
+  })
+  return spans
+}
+
+/** Rules with at least one matching span, in configured order. */
+export const evaluateRules = (points: ForecastPoint[], rules: ThresholdRule[]): RuleMatch[] =>
+  rules
+    .map(rule => ({ rule, spans: findRuleSpans(points, rule) }))
+    .filter(match => match.spans.length > 0)
@@ -0,0 +1,138 @@
+/**
+ * Offline time zone lookup for forecast coordinates.
+ *
+ * The polygons below are deliberately coarse: they only need to separate
+ * areas whose clocks differ, so neighbours that share offset and DST rules
+ * (Norway, Sweden and Denmark, for instance) are covered by a single zone.
+ * Anything not covered falls back to a nautical `Etc/GMT±N` zone derived
+ * from the longitude. Authors who need an exact zone can set one explicitly.
+ */
+
+type Polygon = Array<[number, number]> // [lat, lon] pairs
+
+interface ZoneArea {
+  zone: string
+  polygon: Polygon
+}
+
+const box = (south: number, west: number, north: number, east: number): Polygon =>
+  [[south, west], [north, west], [north, east], [south, east]]
+
+// Checked in order, so smaller areas must come before the regions around them
+const ZONE_AREAS: ZoneArea[] = [
+  // Nordics and Baltics
+  { zone: 'Atlantic/Reykjavik', polygon: box(63.0, -25.0, 67.0, -13.0) },
+  { zone: 'Atlantic/Faroe', polygon: box(61.3, -7.8, 62.5, -6.2) },
+  { zone: 'Arctic/Longyearbyen', polygon: box(74.0, 10.0, 81.0, 35.0) },
+  {
+    zone: 'Europe/Helsinki',
+    polygon: [
+      [59.7, 19.2], [60.4, 19.2], [63.5, 20.7], [65.75, 24.1], [66.9, 23.6], [68.4, 22.3], [69.1, 20.5],
+      [69.3, 21.3], [68.75, 22.4], [69.0, 24.0], [68.6, 25.0], [69.2, 25.8], [69.95, 26.6], [70.1, 27.9],
+      [69.55, 29.3], [69.05, 28.9], [68.0, 28.6], [66.9, 30.0], [65.6, 29.7], [63.8, 30.5], [62.1, 31.6],
+      [60.6, 27.8], [59.9, 24.0]
+    ]
+  },
+  { zone: 'Europe/Kaliningrad', polygon: box(54.3, 19.6, 55.3, 22.9) },
+  {
+    zone: 'Europe/Riga',
+    polygon: [[59.7, 21.5], [59.6, 28.0], [57.5, 27.8], [56.1, 28.2], [55.7, 26.6], [54.0, 25.8], [53.9, 23.5], [55.3, 22.9], [55.7, 20.9], [57.8, 21.0]]
+  },
+  {
+    zone: 'Europe/Minsk',
+    polygon: [[51.3, 23.2], [53.9, 23.5], [55.7, 26.6], [56.1, 28.2], [55.8, 30.9], [54.0, 32.7], [52.3, 31.8], [51.5, 30.6], [51.5, 23.6]]
+  },
+  {
+    zone: 'Europe/Moscow',
+    polygon: [[69.9, 31.1], [69.05, 28.9], [66.9, 30.0], [62.1, 31.6], [60.6, 27.8], [59.6, 28.0], [56.1, 28.2], [55.8, 30.9], [54.0, 32.7], [52.3, 34.0], [50.0, 40.0], [46.0, 48.0], [41.2, 47.5], [44.0, 56.0], [70.0, 56.0]]
+  },
+  // Eastern Europe (EET)
+  {
+    zone: 'Europe/Kyiv',
+    polygon: [[48.0, 22.1], [51.5, 23.6], [51.5, 30.6], [52.3, 31.8], [52.3, 34.0], [50.0, 40.0], [47.0, 38.5], [44.3, 33.5], [45.2, 29.7], [47.9, 26.6]]
+  },
+  {
+    zone: 'Europe/Bucharest',
+    polygon: [[48.3, 22.8], [47.9, 26.6], [45.2, 29.7], [43.7, 28.6], [42.0, 28.0], [41.2, 26.0], [40.8, 26.3], [34.8, 28.0], [34.8, 19.9], [39.8, 20.0], [40.9, 20.9], [41.3, 22.9], [44.2, 22.7], [45.9, 20.3]]
+  },
+  { zone: 'Europe/Istanbul', polygon: box(35.8, 26.0, 42.2, 44.8) },
+  { zone: 'Asia/Nicosia', polygon: box(34.5, 32.2, 35.7, 34.6) },
+  // Western Europe (WET)
+  { zone: 'Europe/London', polygon: [[49.8, -10.7], [61.0, -10.7], [61.0, 1.8], [51.3, 1.8], [50.9, 1.3], [49.8, -2.0]] },
+  { zone: 'Europe/Lisbon', polygon: box(36.9, -9.6, 42.2, -6.2) },
+  { zone: 'Atlantic/Madeira', polygon: box(32.3, -17.4, 33.2, -16.2) },
+  { zone: 'Atlantic/Azores', polygon: box(36.8, -31.5, 39.8, -24.8) },
+  { zone: 'Atlantic/Canary', polygon: box(27.6, -18.2, 29.5, -13.4) },
+  // Everything else between the Atlantic and the EET belt keeps Central European time
+  { zone: 'Europe/Oslo', polygon: [[35.8, -9.4], [43.8, -9.4], [48.5, -5.2], [58.0, -2.0], [71.5, 4.0], [71.5, 31.5], [69.9, 31.1], [69.05, 28.9], [59.7, 19.2], [55.7, 20.9], [54.3, 19.6], [51.3, 23.2], [48.3, 22.8], [45.9, 20.3], [41.3, 22.9], [39.8, 20.0], [35.8, 12.0]] },
+  { zone: 'America/Nuuk', polygon: box(59.5, -74.0, 84.0, -20.0) },
+  // North America, by offset belt
+  { zone: 'America/St_Johns', polygon: box(46.5, -59.5, 52.0, -52.5) },
+  { zone: 'America/Halifax', polygon: box(43.3, -67.5, 49.0, -59.5) },
+  { zone: 'America/Phoenix', polygon: box(31.3, -114.8, 37.0, -109.05) },
+  { zone: 'America/Anchorage', polygon: box(51.0, -170.0, 71.5, -141.0) },
+  { zone: 'Pacific/Honolulu', polygon: box(18.8, -160.5, 22.3, -154.7) },
+  { zone: 'America/Los_Angeles', polygon: box(32.5, -125.0, 60.0, -114.8) },
+  { zone: 'America/Denver', polygon: box(31.3, -114.8, 60.0, -101.5) },
+  { zone: 'America/Chicago', polygon: box(25.8, -101.5, 60.0, -87.5) },
+  { zone: 'America/New_York', polygon: box(24.5, -87.5, 50.0, -67.0) }
+]
+
+const pointInPolygon = (lat: number, lon: number, polygon: Polygon): boolean => {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i]
+    const [latJ, lonJ] = polygon[j]
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < (lonJ - lonI) * (lat - latI) / (latJ - latI) + lonI
+    if (crosses) inside = !inside
+  }
+  return inside
+}
+
+/** Nautical zone for the longitude; note the inverted sign of `Etc/GMT` names. */
+const nauticalZone = (lon: number): string => {
+  const offset = Math.max(-12, Math.min(14, Math.round(lon / 15)))
+  if (offset === 0) return 'Etc/GMT'
+  return `Etc/GMT${offset > 0 ? '-' : '+'}${Math.abs(offset)}`
+}
+
+export const resolveTimeZone = (lat: number, lon: number): string => {
+  const area = ZONE_AREAS.find(a => pointInPolygon(lat, lon, a.polygon))
+  return area ? area.zone : nauticalZone(lon)
+}
+
+/**
+ * "UTC+5" when `resolveTimeZone` had to fall back to a nautical zone, which
+ * has no daylight saving time or half-hour offsets; null for a real zone.
+ */
+export const getNauticalOffsetLabel = (zone: string): string | null => {
+  const match = /^Etc\/GMT(?:([+-])(\d+))?$/.exec(zone)
+  if (!match) return null
+  return match[1] ? `UTC${match[1] === '+' ? '-' : '+'}${match[2]}` : 'UTC'
+}
+
+export const isValidTimeZone = (zone: string): boolean => {
+  if (!zone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone }).format(0)
+    return true
+  } catch (err) {
+    return false
+  }
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Wall-clock hour (0–23) and minute of `date` in `timeZone`. */
+export const getZonedTime = (date: Date, timeZone?: string): { hour: number, minute: number } => {
+  const key = timeZone ?? ''
+  let formatter = zonedFormatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    zonedFormatters.set(key, formatter)
+  }
+  const parts = formatter.formatToParts(date)
+  const value = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10)
+  return { hour: value('hour') % 24, minute: value('minute') }
+}
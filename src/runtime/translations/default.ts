@@ -1,3 +1,116 @@
 export default {
-    _widgetLabel: 'Yr Weather'
-}
\ No newline at end of file
+    _widgetLabel: 'Yr Weather',
+    weatherForecast: 'Weather forecast',
+    weatherForecastFor: 'Weather forecast for {name}',
+    weatherForecastChart: 'Weather forecast chart',
+    updatedAt: 'Updated {time}',
+    dataFrom: 'Data: {source}',
+    dataFromSentence: 'Data from {source}.',
+    axisTemperature: 'Temperature ({unit})',
+    axisPrecipitation: 'Precipitation ({unit})',
+    axisWindSpeed: 'Wind speed ({unit})',
+    axisWindForce: 'Wind force (Beaufort)',
+    axisCloudCover: 'Cloud cover (%)',
+    axisHumidity: 'Relative humidity (%)',
+    axisPressure: 'Air pressure (hPa)',
+    axisDewPoint: 'Dew point ({unit})',
+    axisUvIndex: 'UV index',
+    sunrise: 'Sunrise',
+    sunset: 'Sunset',
+    limitExceeded: 'Limit exceeded',
+    limitBadge: '{label} at {time}',
+    summary: 'Next {hours}h: {temperature}, {precipitation}, {wind}',
+    summaryTemperatureRange: '{low} to {high} {unit}',
+    summaryPrecipitation: '{amount} {unit} precipitation',
+    summaryNoPrecipitation: 'no precipitation',
+    summaryGusts: 'gusts up to {speed} {unit}',
+    summaryWind: 'wind up to {speed} {unit}',
+    currentConditions: 'Current conditions',
+    compactWind: '{speed} {unit}',
+    compactWindWithGust: '{speed} ({gust}) {unit}',
+    precipitationNextHours: 'Precipitation next {hours} h',
+    chartInstructions: 'Forecast chart. Use the arrow keys to read values.',
+    time: 'Time',
+    weather: 'Weather',
+    temperature: 'Temperature',
+    wind: 'Wind',
+    gust: 'Gust',
+    windFrom: 'Wind from',
+    precipitation: 'Precipitation',
+    cloudCover: 'Cloud cover',
+    humidity: 'Humidity',
+    pressure: 'Pressure',
+    dewPoint: 'Dew point',
+    uvIndex: 'UV index',
+    perHours: '/ {hours} h',
+    tableCaption: '{title}, updated {time}',
+    variableTemperature: 'Temperature',
+    variableWindSpeed: 'Wind speed',
+    variableWindGust: 'Wind gust',
+    variablePrecipitation: 'Precipitation',
+    nowcastTitle: 'Precipitation nowcast',
+    nowcastAxis: 'Precipitation ({unit}/h)',
+    nowcastNow: 'Now',
+    nowcastDry: 'No precipitation expected in the next two hours',
+    nowcastAmount: 'About {amount} {unit} in the next two hours',
+    nowcastDescription: 'Radar based precipitation from MET Norway.',
+    alertLevelGreen: 'No warning',
+    alertLevelYellow: 'Yellow warning',
+    alertLevelOrange: 'Orange warning',
+    alertLevelRed: 'Red warning',
+    weatherWarnings: 'Weather warnings',
+    showWarningDetails: 'Show warning details',
+    moreWarnings: '(+{count} more)',
+    moreAboutWarning: 'More about this warning',
+    noActiveWarnings: 'There are no active warnings for this location.',
+    backToChart: 'Back to chart',
+    refreshGraph: 'Refresh graph',
+    expandGraph: 'Expand graph',
+    closeGraph: 'Close graph',
+    expandedForecast: 'Expanded weather forecast',
+    backToConfiguredLocation: 'Back to configured location',
+    showForecast: 'Show forecast',
+    showNowcast: 'Show precipitation nowcast',
+    showChart: 'Show chart',
+    showTable: 'Show table',
+    export: 'Export',
+    exportSvg: 'SVG image',
+    exportPng: 'PNG image ({scale}×)',
+    exportCsv: 'CSV data',
+    exportJson: 'JSON data',
+    staleSince: 'Stale since {time}',
+    configurePrompt: 'Please configure a Source URL or provide Fallback SVG Code.',
+    invalidSvg: 'Invalid SVG content',
+    svgRejected: 'The SVG was not shown because it contains unsafe content: {details}.',
+    unableToLoadSource: 'Unable to load meteogram from source.',
+    unableToLoadForecast: 'Unable to load forecast data.',
+    productDeprecated: 'The forecast service reports this product as deprecated, so it is checked less often. The widget needs an update.',
+    rateLimited: 'The forecast service is limiting requests. Next attempt in {minutes} min.',
+    nowcastUnavailable: 'No radar nowcast is available here right now. Showing the forecast instead.',
+    nowcastFailed: 'Unable to load the precipitation nowcast. Showing the forecast instead.',
+    pngExportFailed: 'The chart could not be saved as PNG. Try the SVG export instead.',
+    symbolClearsky: 'Clear sky',
+    symbolFair: 'Fair',
+    symbolPartlycloudy: 'Partly cloudy',
+    symbolCloudy: 'Cloudy',
+    symbolFog: 'Fog',
+    symbolLightRain: 'Light rain',
+    symbolRain: 'Rain',
+    symbolHeavyRain: 'Heavy rain',
+    symbolLightRainShowers: 'Light rain showers',
+    symbolRainShowers: 'Rain showers',
+    symbolHeavyRainShowers: 'Heavy rain showers',
+    symbolLightSleet: 'Light sleet',
+    symbolSleet: 'Sleet',
+    symbolHeavySleet: 'Heavy sleet',
+    symbolLightSleetShowers: 'Light sleet showers',
+    symbolSleetShowers: 'Sleet showers',
+    symbolHeavySleetShowers: 'Heavy sleet showers',
+    symbolLightSnow: 'Light snow',
+    symbolSnow: 'Snow',
+    symbolHeavySnow: 'Heavy snow',
+    symbolLightSnowShowers: 'Light snow showers',
+    symbolSnowShowers: 'Snow showers',
+    symbolHeavySnowShowers: 'Heavy snow showers',
+    symbolWithThunder: '{weather} and thunder'
+}
@@ -0,0 +1,122 @@
+System.register([], function (e) {
+  return {
+    execute: function () {
+      e({
+        "_widgetLabel": "Yr-vær",
+        "weatherForecast": "Værvarsel",
+        "weatherForecastFor": "Værvarsel for {name}",
+        "weatherForecastChart": "Værvarselgraf",
+        "updatedAt": "Oppdatert {time}",
+        "dataFrom": "Data: {source}",
+        "dataFromSentence": "Data fra {source}.",
+        "axisTemperature": "Temperatur ({unit})",
+        "axisPrecipitation": "Nedbør ({unit})",
+        "axisWindSpeed": "Vindstyrke ({unit})",
+        "axisWindForce": "Vindstyrke (Beaufort)",
+        "axisCloudCover": "Skydekke (%)",
+        "axisHumidity": "Relativ luftfuktighet (%)",
+        "axisPressure": "Lufttrykk (hPa)",
+        "axisDewPoint": "Duggpunkt ({unit})",
+        "axisUvIndex": "UV-indeks",
+        "sunrise": "Soloppgang",
+        "sunset": "Solnedgang",
+        "limitExceeded": "Grense overskredet",
+        "limitBadge": "{label} kl. {time}",
+        "summary": "Neste {hours} t: {temperature}, {precipitation}, {wind}",
+        "summaryTemperatureRange": "{low} til {high} {unit}",
+        "summaryPrecipitation": "{amount} {unit} nedbør",
+        "summaryNoPrecipitation": "ingen nedbør",
+        "summaryGusts": "vindkast opptil {speed} {unit}",
+        "summaryWind": "vind opptil {speed} {unit}",
+        "currentConditions": "Været nå",
+        "compactWind": "{speed} {unit}",
+        "compactWindWithGust": "{speed} ({gust}) {unit}",
+        "precipitationNextHours": "Nedbør neste {hours} t",
+        "chartInstructions": "Værvarselgraf. Bruk piltastene for å lese verdier.",
+        "time": "Tid",
+        "weather": "Vær",
+        "temperature": "Temperatur",
+        "wind": "Vind",
+        "gust": "Vindkast",
+        "windFrom": "Vind fra",
+        "precipitation": "Nedbør",
+        "cloudCover": "Skydekke",
+        "humidity": "Luftfuktighet",
+        "pressure": "Lufttrykk",
+        "dewPoint": "Duggpunkt",
+        "uvIndex": "UV-indeks",
+        "perHours": "/ {hours} t",
+        "tableCaption": "{title}, oppdatert {time}",
+        "variableTemperature": "Temperatur",
+        "variableWindSpeed": "Vindstyrke",
+        "variableWindGust": "Vindkast",
+        "variablePrecipitation": "Nedbør",
+        "nowcastTitle": "Nedbør neste to timer",
+        "nowcastAxis": "Nedbør ({unit}/t)",
+        "nowcastNow": "Nå",
+        "nowcastDry": "Ingen nedbør ventet de neste to timene",
+        "nowcastAmount": "Omtrent {amount} {unit} de neste to timene",
+        "nowcastDescription": "Radarbasert nedbør fra Meteorologisk institutt.",
+        "alertLevelGreen": "Ingen farevarsel",
+        "alertLevelYellow": "Gult farevarsel",
+        "alertLevelOrange": "Oransje farevarsel",
+        "alertLevelRed": "Rødt farevarsel",
+        "weatherWarnings": "Farevarsler",
+        "showWarningDetails": "Vis detaljer om farevarselet",
+        "moreWarnings": "(+{count} til)",
+        "moreAboutWarning": "Mer om dette farevarselet",
+        "noActiveWarnings": "Det er ingen aktive farevarsler for dette stedet.",
+        "backToChart": "Tilbake til grafen",
+        "refreshGraph": "Oppdater grafen",
+        "expandGraph": "Forstørr grafen",
+        "closeGraph": "Lukk grafen",
+        "expandedForecast": "Forstørret værvarsel",
+        "backToConfiguredLocation": "Tilbake til valgt sted",
+        "showForecast": "Vis værvarsel",
+        "showNowcast": "Vis nedbør neste to timer",
+        "showChart": "Vis graf",
+        "showTable": "Vis tabell",
+        "export": "Eksporter",
+        "exportSvg": "SVG-bilde",
+        "exportPng": "PNG-bilde ({scale}×)",
+        "exportCsv": "CSV-data",
+        "exportJson": "JSON-data",
+        "staleSince": "Utdatert siden {time}",
+        "configurePrompt": "Angi en kilde-URL eller legg inn reserve-SVG-kode.",
+        "invalidSvg": "Ugyldig SVG-innhold",
+        "svgRejected": "SVG-en ble ikke vist fordi den har usikkert innhold: {details}.",
+        "unableToLoadSource": "Kunne ikke laste meteogrammet fra kilden.",
+        "unableToLoadForecast": "Kunne ikke laste værdata.",
+        "productDeprecated": "Værtjenesten melder at dette produktet er utfaset, så det sjekkes sjeldnere. Widgeten må oppdateres.",
+        "rateLimited": "Værtjenesten begrenser forespørslene. Nytt forsøk om {minutes} min.",
+        "nowcastUnavailable": "Ingen radardata er tilgjengelig her akkurat nå. Viser værvarselet i stedet.",
+        "nowcastFailed": "Kunne ikke laste nedbør for de neste to timene. Viser værvarselet i stedet.",
+        "pngExportFailed": "Grafen kunne ikke lagres som PNG. Prøv SVG-eksporten i stedet.",
+        "symbolClearsky": "Klarvær",
+        "symbolFair": "Lettskyet",
+        "symbolPartlycloudy": "Delvis skyet",
+        "symbolCloudy": "Skyet",
+        "symbolFog": "Tåke",
+        "symbolLightRain": "Lett regn",
+        "symbolRain": "Regn",
+        "symbolHeavyRain": "Kraftig regn",
+        "symbolLightRainShowers": "Lette regnbyger",
+        "symbolRainShowers": "Regnbyger",
+        "symbolHeavyRainShowers": "Kraftige regnbyger",
+        "symbolLightSleet": "Lett sludd",
+        "symbolSleet": "Sludd",
+        "symbolHeavySleet": "Kraftig sludd",
+        "symbolLightSleetShowers": "Lette sluddbyger",
+        "symbolSleetShowers": "Sluddbyger",
+        "symbolHeavySleetShowers": "Kraftige sluddbyger",
+        "symbolLightSnow": "Lett snø",
+        "symbolSnow": "Snø",
+        "symbolHeavySnow": "Kraftig snø",
+        "symbolLightSnowShowers": "Lette snøbyger",
+        "symbolSnowShowers": "Snøbyger",
+        "symbolHeavySnowShowers": "Kraftige snøbyger",
+        "symbolWithThunder": "{weather} og torden"
+      })
+    }
+  }
+})
@@ -0,0 +1,122 @@
+System.register([], function (e) {
+  return {
+    execute: function () {
+      e({
+        "_widgetLabel": "Yr-vêr",
+        "weatherForecast": "Vêrvarsel",
+        "weatherForecastFor": "Vêrvarsel for {name}",
+        "weatherForecastChart": "Vêrvarselgraf",
+        "updatedAt": "Oppdatert {time}",
+        "dataFrom": "Data: {source}",
+        "dataFromSentence": "Data frå {source}.",
+        "axisTemperature": "Temperatur ({unit})",
+        "axisPrecipitation": "Nedbør ({unit})",
+        "axisWindSpeed": "Vindstyrke ({unit})",
+        "axisWindForce": "Vindstyrke (Beaufort)",
+        "axisCloudCover": "Skydekke (%)",
+        "axisHumidity": "Relativ luftfukt (%)",
+        "axisPressure": "Lufttrykk (hPa)",
+        "axisDewPoint": "Duggpunkt ({unit})",
+        "axisUvIndex": "UV-indeks",
+        "sunrise": "Soloppgang",
+        "sunset": "Solnedgang",
+        "limitExceeded": "Grensa er overskriden",
+        "limitBadge": "{label} kl. {time}",
+        "summary": "Neste {hours} t: {temperature}, {precipitation}, {wind}",
+        "summaryTemperatureRange": "{low} til {high} {unit}",
+        "summaryPrecipitation": "{amount} {unit} nedbør",
+        "summaryNoPrecipitation": "ingen nedbør",
+        "summaryGusts": "vindkast opp til {speed} {unit}",
+        "summaryWind": "vind opp til {speed} {unit}",
+        "currentConditions": "Vêret no",
+        "compactWind": "{speed} {unit}",
+        "compactWindWithGust": "{speed} ({gust}) {unit}",
+        "precipitationNextHours": "Nedbør neste {hours} t",
+        "chartInstructions": "Vêrvarselgraf. Bruk piltastane for å lese verdiar.",
+        "time": "Tid",
+        "weather": "Vêr",
+        "temperature": "Temperatur",
+        "wind": "Vind",
+        "gust": "Vindkast",
+        "windFrom": "Vind frå",
+        "precipitation": "Nedbør",
+        "cloudCover": "Skydekke",
+        "humidity": "Luftfukt",
+        "pressure": "Lufttrykk",
+        "dewPoint": "Duggpunkt",
+        "uvIndex": "UV-indeks",
+        "perHours": "/ {hours} t",
+        "tableCaption": "{title}, oppdatert {time}",
+        "variableTemperature": "Temperatur",
+        "variableWindSpeed": "Vindstyrke",
+        "variableWindGust": "Vindkast",
+        "variablePrecipitation": "Nedbør",
+        "nowcastTitle": "Nedbør dei neste to timane",
+        "nowcastAxis": "Nedbør ({unit}/t)",
+        "nowcastNow": "No",
+        "nowcastDry": "Inga nedbør venta dei neste to timane",
+        "nowcastAmount": "Om lag {amount} {unit} dei neste to timane",
+        "nowcastDescription": "Radarbasert nedbør frå Meteorologisk institutt.",
+        "alertLevelGreen": "Ikkje farevarsel",
+        "alertLevelYellow": "Gult farevarsel",
+        "alertLevelOrange": "Oransje farevarsel",
+        "alertLevelRed": "Rødt farevarsel",
+        "weatherWarnings": "Farevarsel",
+        "showWarningDetails": "Vis detaljar om farevarselet",
+        "moreWarnings": "(+{count} til)",
+        "moreAboutWarning": "Mer om dette farevarselet",
+        "noActiveWarnings": "Det er ingen aktive farevarsel for denne staden.",
+        "backToChart": "Tilbake til grafen",
+        "refreshGraph": "Oppdater grafen",
+        "expandGraph": "Forstørr grafen",
+        "closeGraph": "Lukk grafen",
+        "expandedForecast": "Forstørra vêrvarsel",
+        "backToConfiguredLocation": "Tilbake til vald stad",
+        "showForecast": "Vis vêrvarsel",
+        "showNowcast": "Vis nedbør dei neste to timane",
+        "showChart": "Vis graf",
+        "showTable": "Vis tabell",
+        "export": "Eksporter",
+        "exportSvg": "SVG-bilde",
+        "exportPng": "PNG-bilde ({scale}×)",
+        "exportCsv": "CSV-data",
+        "exportJson": "JSON-data",
+        "staleSince": "Utdatert sidan {time}",
+        "configurePrompt": "Oppgje ein kjelde-URL eller legg inn reserve-SVG-kode.",
+        "invalidSvg": "Ugyldig SVG-innhald",
+        "svgRejected": "SVG-en vart ikkje vist fordi han har usikkert innhald: {details}.",
+        "unableToLoadSource": "Kunne ikkje laste meteogrammet frå kjelda.",
+        "unableToLoadForecast": "Kunne ikkje laste vêrdata.",
+        "productDeprecated": "Vêrtenesta melder at dette produktet er fasa ut, så det blir sjekka sjeldnare. Widgeten må oppdaterast.",
+        "rateLimited": "Vêrtenesta avgrensar førespurnadene. Nytt forsøk om {minutes} min.",
+        "nowcastUnavailable": "Ingen radardata er tilgjengelege her akkurat no. Viser vêrvarselet i staden.",
+        "nowcastFailed": "Kunne ikkje laste nedbør for dei neste to timane. Viser vêrvarselet i staden.",
+        "pngExportFailed": "Grafen kunne ikkje lagrast som PNG. Prøv SVG-eksporten i staden.",
+        "symbolClearsky": "Klårvêr",
+        "symbolFair": "Lettskya",
+        "symbolPartlycloudy": "Delvis skya",
+        "symbolCloudy": "Skya",
+        "symbolFog": "Tåke",
+        "symbolLightRain": "Lett regn",
+        "symbolRain": "Regn",
+        "symbolHeavyRain": "Kraftig regn",
+        "symbolLightRainShowers": "Lette regnbyer",
+        "symbolRainShowers": "Regnbyer",
+        "symbolHeavyRainShowers": "Kraftige regnbyer",
+        "symbolLightSleet": "Lett sludd",
+        "symbolSleet": "Sludd",
+        "symbolHeavySleet": "Kraftig sludd",
+        "symbolLightSleetShowers": "Lette sluddbyer",
+        "symbolSleetShowers": "Sluddbyer",
+        "symbolHeavySleetShowers": "Kraftige sluddbyer",
+        "symbolLightSnow": "Lett snø",
+        "symbolSnow": "Snø",
+        "symbolHeavySnow": "Kraftig snø",
+        "symbolLightSnowShowers": "Lette snøbyer",
+        "symbolSnowShowers": "Snøbyer",
+        "symbolHeavySnowShowers": "Kraftige snøbyer",
+        "symbolWithThunder": "{weather} og torevêr"
+      })
+    }
+  }
+})
@@ -0,0 +1,92 @@
+export interface Coordinates {
+  lat: number
+  lon: number
+}
+
+export interface ForecastLocation extends Coordinates {
+  altitude?: number | null
+  name?: string
+}
+
+export interface ForecastPoint {
+  time: string
+  temperature: number
+  windSpeed: number
+  windGust: number | null
+  // Meteorological direction the wind blows from, in degrees
+  windDirection: number | null
+  // Amount over the `periodHours` following `time`
+  precipitation: number | null
+  periodHours: number
+  // locationforecast symbol_code for the period starting at `time`, e.g. "partlycloudy_day"
+  symbolCode: string | null
+  // Optional panels; absent when the source does not provide them
+  cloudAreaFraction?: number | null
+  relativeHumidity?: number | null
+  // Sea level pressure in hPa
+  airPressure?: number | null
+  dewPoint?: number | null
+  uvIndex?: number | null
+  // Spread from the locationforecast "complete" product; absent for other sources
+  temperatureP10?: number | null
+  temperatureP90?: number | null
+  windSpeedP10?: number | null
+  windSpeedP90?: number | null
+  // Over the same period as `precipitation`
+  precipitationMin?: number | null
+  precipitationMax?: number | null
+}
+
+export interface ForecastPayload {
+  updatedAt: string
+  // Attribution for the data, e.g. "MET Norway"
+  source?: string
+  points: ForecastPoint[]
+}
+
+/** Sun events for one UTC day, from the met.no Sunrise API. */
+export interface SunDay {
+  // YYYY-MM-DD in UTC
+  date: string
+  sunrise: string | null
+  sunset: string | null
+  // Set when the sun neither rises nor sets that day
+  polar: 'day' | 'night' | null
+  fetchedAt: number
+}
+
+export interface NowcastPoint {
+  time: string
+  // mm/h at `time`; null where the radar has no value
+  precipitationRate: number | null
+}
+
+export interface NowcastPayload {
+  updatedAt: string
+  points: NowcastPoint[]
+}
+
+export type AlertLevel = 'green' | 'yellow' | 'orange' | 'red'
+
+/** One MetAlerts (CAP) warning that covers the forecast location. */
+export interface WeatherAlert {
+  id: string
+  title: string
+  // Awareness type, e.g. "Wind" or "Icing"
+  awarenessType: string
+  level: AlertLevel
+  // Name of the event as written by the forecasters, e.g. "Strong wind gusts"
+  eventName: string
+  area: string
+  description: string
+  consequences: string
+  instruction: string
+  // ISO times of the validity period
+  start: string
+  end: string
+  // Link to the warning on met.no, when given
+  web: string | null
+}
+
+/** Looks up a runtime message by id and fills its `{placeholders}` from `values`. */
+export type Translate = (id: string, values?: { [name: string]: string | number }) => string
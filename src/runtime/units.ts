@@ -0,0 +1,72 @@
+/**
+ * Unit conversion for the meteogram. Forecast data is always kept in the
+ * API's SI units (°C, m/s, mm) and only converted for display.
+ */
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit'
+export type WindUnit = 'ms' | 'kmh' | 'mph' | 'knots' | 'beaufort'
+export type PrecipitationUnit = 'mm' | 'inches'
+
+export interface UnitSettings {
+  temperatureUnit?: TemperatureUnit
+  windUnit?: WindUnit
+  precipitationUnit?: PrecipitationUnit
+}
+
+// Lower bounds (m/s) of Beaufort forces 1–12
+const BEAUFORT_LIMITS = [0.5, 1.6, 3.4, 5.5, 8.0, 10.8, 13.9, 17.2, 20.8, 24.5, 28.5, 32.7]
+
+export const toBeaufort = (ms: number): number => {
+  let force = 0
+  while (force < BEAUFORT_LIMITS.length && ms >= BEAUFORT_LIMITS[force]) force++
+  return force
+}
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit = 'celsius'): number =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius
+
+export const convertWind = (ms: number, unit: WindUnit = 'ms'): number => {
+  switch (unit) {
+    case 'kmh': return ms * 3.6
+    case 'mph': return ms * 2.236936
+    case 'knots': return ms * 1.943844
+    case 'beaufort': return toBeaufort(ms)
+    default: return ms
+  }
+}
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit = 'mm'): number =>
+  unit === 'inches' ? mm / 25.4 : mm
+
+export const temperatureSymbol = (unit: TemperatureUnit = 'celsius'): string =>
+  unit === 'fahrenheit' ? '°F' : '°C'
+
+export const windSymbol = (unit: WindUnit = 'ms'): string => ({
+  ms: 'm/s',
+  kmh: 'km/h',
+  mph: 'mph',
+  knots: 'kn',
+  beaufort: 'Bft'
+}[unit] ?? 'm/s')
+
+export const precipitationSymbol = (unit: PrecipitationUnit = 'mm'): string =>
+  unit === 'inches' ? 'in' : 'mm'
+
+/** Decimals that make sense when showing a single value in the unit. */
+export const windDecimals = (unit: WindUnit = 'ms'): number => unit === 'beaufort' || unit === 'kmh' ? 0 : 1
+export const precipitationDecimals = (unit: PrecipitationUnit = 'mm'): number => unit === 'inches' ? 2 : 1
+
+/**
+ * Smallest 1-2-5 step that splits `range` into at most `maxTicks` intervals.
+ * Integer-only scales (Beaufort) never go below 1.
+ */
+export const niceStep = (range: number, maxTicks: number, integerOnly = false): number => {
+  if (!(range > 0)) return 1
+  const raw = range / maxTicks
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)))
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(candidate => candidate >= raw) ?? 10 * magnitude
+  return integerOnly ? Math.max(1, Math.round(step)) : step
+}
+
+export const stepDecimals = (step: number): number =>
+  step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)))
@@ -0,0 +1,173 @@
+import { type Translate } from './types'
+import { escapeXml } from './xml'
+
+/**
+ * Inline weather icons for locationforecast `symbol_code` values
+ * (e.g. `partlycloudy_day`, `heavyrainshowersandthunder_night`).
+ *
+ * Icons are composed from a handful of glyphs drawn on a 24x24 grid so the
+ * whole set ships with the widget and nothing is fetched at runtime.
+ */
+
+const SUN_COLOR = '#FFB800'
+const MOON_COLOR = '#8A9BA8'
+const LIGHT_CLOUD_COLOR = '#D3DCE3'
+const DARK_CLOUD_COLOR = '#A3B0BB'
+const RAIN_COLOR = '#006EDB'
+const SNOW_COLOR = '#7FB8E6'
+const THUNDER_COLOR = '#FFD500'
+const FOG_COLOR = '#A3B0BB'
+
+type Precipitation = 'rain' | 'sleet' | 'snow'
+type Intensity = 'light' | 'normal' | 'heavy'
+type Variant = 'day' | 'night' | 'polartwilight' | null
+
+interface ParsedSymbol {
+  sky: 'clearsky' | 'fair' | 'partlycloudy' | 'cloudy' | 'fog'
+  precipitation: Precipitation | null
+  intensity: Intensity
+  showers: boolean
+  thunder: boolean
+  variant: Variant
+}
+
+// A name and an optional variant; anything else is not a locationforecast code
+const SYMBOL_CODE = /^[a-z]+(_(day|night|polartwilight))?$/
+
+export const isValidSymbolCode = (code: unknown): code is string =>
+  typeof code === 'string' && SYMBOL_CODE.test(code)
+
+export const parseSymbolCode = (code: string): ParsedSymbol | null => {
+  if (!isValidSymbolCode(code)) return null
+  const [name, rawVariant] = code.split('_')
+  const variant: Variant = rawVariant === 'day' || rawVariant === 'night' || rawVariant === 'polartwilight' ? rawVariant : null
+
+  if (name === 'clearsky' || name === 'fair' || name === 'partlycloudy' || name === 'cloudy' || name === 'fog') {
+    return { sky: name, precipitation: null, intensity: 'normal', showers: false, thunder: false, variant }
+  }
+
+  const match = /^(light|heavy)?(rain|sleet|snow)(showers)?(andthunder)?$/.exec(name)
+  if (!match) return null
+  return {
+    sky: match[3] ? 'partlycloudy' : 'cloudy',
+    precipitation: match[2] as Precipitation,
+    intensity: (match[1] as Intensity) || 'normal',
+    showers: !!match[3],
+    thunder: !!match[4],
+    variant
+  }
+}
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1)
+
+/**
+ * Plain-language name of a symbol code, e.g. "Light rain showers and thunder".
+ * Names come from the runtime messages `symbol*`, such as `symbolLightRainShowers`.
+ */
+export const describeSymbolCode = (code: string, translate: Translate): string => {
+  const parsed = parseSymbolCode(code)
+  if (!parsed) return ''
+  if (!parsed.precipitation) return translate(`symbol${capitalize(parsed.sky)}`)
+  const intensity = parsed.intensity === 'normal' ? '' : capitalize(parsed.intensity)
+  const name = translate(`symbol${intensity}${capitalize(parsed.precipitation)}${parsed.showers ? 'Showers' : ''}`)
+  return parsed.thunder ? translate('symbolWithThunder', { weather: name }) : name
+}
+
+const sun = (cx: number, cy: number, r: number): string => {
+  const rays = Array.from({ length: 8 }, (_, i) => {
+    const a = (Math.PI / 4) * i
+    const x1 = cx + Math.cos(a) * (r + 1.5)
+    const y1 = cy + Math.sin(a) * (r + 1.5)
+    const x2 = cx + Math.cos(a) * (r + 3.5)
+    const y2 = cy + Math.sin(a) * (r + 3.5)
+    return `<line x1="${x1.toFixed(2)}" y1="${y1.toFixed(2)}" x2="${x2.toFixed(2)}" y2="${y2.toFixed(2)}" stroke="${SUN_COLOR}" stroke-width="1.5" stroke-linecap="round" />`
+  }).join('')
+  return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${SUN_COLOR}" />${rays}`
+}
+
+const moon = (cx: number, cy: number, r: number): string => {
+  // Crescent: outer arc of the full disc, inner arc of an offset disc
+  const top = `${cx.toFixed(2)},${(cy - r).toFixed(2)}`
+  const bottom = `${cx.toFixed(2)},${(cy + r).toFixed(2)}`
+  return `<path d="M${top} A${r},${r} 0 1 0 ${bottom} A${(r * 0.75).toFixed(2)},${r} 0 1 1 ${top} Z" fill="${MOON_COLOR}" />`
+}
+
+const celestial = (variant: Variant, cx: number, cy: number, r: number): string => {
+  if (variant === 'night') return moon(cx, cy, r)
+  if (variant === 'polartwilight') return `<g opacity="0.6">${sun(cx, cy, r)}</g>`
+  return sun(cx, cy, r)
+}
+
+const cloud = (x: number, y: number, scale: number, color: string): string => {
+  const s = (v: number) => (v * scale).toFixed(2)
+  return `<g fill="${color}">
+    <circle cx="${(x + 6 * scale).toFixed(2)}" cy="${(y + 7 * scale).toFixed(2)}" r="${s(4)}" />
+    <circle cx="${(x + 11 * scale).toFixed(2)}" cy="${(y + 5 * scale).toFixed(2)}" r="${s(5)}" />
+    <circle cx="${(x + 15.5 * scale).toFixed(2)}" cy="${(y + 8 * scale).toFixed(2)}" r="${s(3.5)}" />
+    <rect x="${(x + 2 * scale).toFixed(2)}" y="${(y + 7 * scale).toFixed(2)}" width="${s(17)}" height="${s(5)}" rx="${s(2.5)}" />
+  </g>`
+}
+
+const drop = (x: number, y: number): string =>
+  `<line x1="${x + 1}" y1="${y}" x2="${x}" y2="${y + 3}" stroke="${RAIN_COLOR}" stroke-width="1.6" stroke-linecap="round" />`
+
+const flake = (x: number, y: number): string =>
+  `<g stroke="${SNOW_COLOR}" stroke-width="1.2" stroke-linecap="round">
+    <line x1="${x - 1.5}" y1="${y + 1.5}" x2="${x + 1.5}" y2="${y + 1.5}" />
+    <line x1="${x}" y1="${y}" x2="${x}" y2="${y + 3}" />
+  </g>`
+
+const precipitation = (type: Precipitation, intensity: Intensity): string => {
+  const count = intensity === 'light' ? 1 : intensity === 'heavy' ? 3 : 2
+  const xs = count === 1 ? [11] : count === 2 ? [8, 14] : [6, 11, 16]
+  return xs.map((x, i) => {
+    if (type === 'rain') return drop(x, 18)
+    if (type === 'snow') return flake(x, 18)
+    return i % 2 === 0 ? drop(x, 18) : flake(x, 18)
+  }).join('')
+}
+
+const thunder = (): string =>
+  `<path d="M13 14 L10 19 L12.5 19 L11 23 L15.5 17.5 L13 17.5 L14.5 14 Z" fill="${THUNDER_COLOR}" stroke="#B38F00" stroke-width="0.5" />`
+
+const fog = (): string =>
+  [9, 13, 17].map((y, i) =>
+    `<line x1="${3 + i}" y1="${y}" x2="${21 - i}" y2="${y}" stroke="${FOG_COLOR}" stroke-width="2" stroke-linecap="round" />`
+  ).join('')
+
+const glyph = (symbol: ParsedSymbol): string => {
+  if (symbol.sky === 'fog') return fog()
+
+  if (symbol.precipitation) {
+    const parts = []
+    if (symbol.showers) parts.push(celestial(symbol.variant, 7, 6, 3.5))
+    parts.push(cloud(2, 3, 1, DARK_CLOUD_COLOR))
+    parts.push(precipitation(symbol.precipitation, symbol.intensity))
+    if (symbol.thunder) parts.push(thunder())
+    return parts.join('')
+  }
+
+  switch (symbol.sky) {
+    case 'clearsky':
+      return celestial(symbol.variant, 12, 12, 5)
+    case 'fair':
+      return celestial(symbol.variant, 10, 10, 4.5) + cloud(9, 12, 0.65, LIGHT_CLOUD_COLOR)
+    case 'partlycloudy':
+      return celestial(symbol.variant, 8, 8, 4) + cloud(4, 7, 0.95, LIGHT_CLOUD_COLOR)
+    default:
+      return cloud(2, 5, 1.05, LIGHT_CLOUD_COLOR)
+  }
+}
+
+/**
+ * Returns an SVG `<g>` for the symbol centred on (x, y), or an empty string
+ * for unknown codes. Its title is the localized name from `describeSymbolCode`.
+ */
+export const renderWeatherSymbol = (code: string, x: number, y: number, size: number, translate: Translate): string => {
+  const symbol = parseSymbolCode(code)
+  if (!symbol) return ''
+  const scale = size / 24
+  const tx = (x - size / 2).toFixed(2)
+  const ty = (y - size / 2).toFixed(2)
+  return `<g class="weather-symbol" transform="translate(${tx},${ty}) scale(${scale.toFixed(3)})"><title>${escapeXml(describeSymbolCode(code, translate))}</title>${glyph(symbol)}</g>`
+}
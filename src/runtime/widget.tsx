@@ -1,34 +1,170 @@
 /** @jsx jsx */
-import { React, AllWidgetProps, jsx, css, type SerializedStyles } from 'jimu-core'
+import {
+  React, AllWidgetProps, jsx, css, type SerializedStyles, DataSourceComponent, DataSourceManager, DataSourceStatus, MessageManager,
+  DataRecordSetChangeMessage, DataRecordsSelectionChangeMessage, RecordSetChangeType, Immutable, type DataSource, type DataRecord,
+  type FeatureDataRecord, type ImmutableArray, getAppStore, appActions
+} from 'jimu-core'
 import { Loading } from 'jimu-ui'
+import { JimuMapViewComponent, type JimuMapView } from 'jimu-arcgis'
+import * as projection from 'esri/geometry/projection'
+import SpatialReference from 'esri/geometry/SpatialReference'
+import Graphic from 'esri/Graphic'
 import ReactDOM from 'react-dom'
-import { type IMConfig } from './config'
-
-interface ForecastPoint {
-  time: string
-  temperature: number
-  windSpeed: number
-  windGust: number | null
-  precipitation: number | null
-}
-
-interface ForecastPayload {
-  updatedAt: string
-  points: ForecastPoint[]
-}
+import { type IMConfig, type ForecastHorizon } from './config'
+import { type Coordinates, type ForecastLocation, type ForecastPayload, type SunDay, type NowcastPayload, type WeatherAlert, type Translate } from './types'
+import { extractCoordinates, getConfiguredLocation } from './location'
+import { renderWeatherSymbol, describeSymbolCode } from './weather-symbols'
+import { renderWindArrow, renderWindBarb } from './wind-glyphs'
+import {
+  convertTemperature, convertWind, convertPrecipitation, temperatureSymbol, windSymbol, precipitationSymbol,
+  windDecimals, precipitationDecimals, niceStep, stepDecimals
+} from './units'
+import { resolveTimeZone, isValidTimeZone, getZonedTime } from './time-zones'
+import { fetchMetText, HttpError } from './met-api'
+import { getForecastProvider, DEFAULT_CUSTOM_FIELD_MAPPING, type ForecastProvider, type ProviderOptions } from './providers'
+import { readCachedForecast, writeCachedForecast, getCacheKey } from './forecast-cache'
+import { getOutputDataSourceId, toOutputFeatures, OUTPUT_FIELDS } from './output-data-source'
+import { getPanels, getPlotHeight, layoutPanels, renderSeriesPanel, type PanelId } from './panels'
+import { getSunDays, getUtcDates, getNightIntervals } from './sun'
+import { fetchNowcast, generateNowcastSvg, isInNowcastArea } from './nowcast'
+import { fetchAlerts, ALERT_COLORS, ALERT_LEVEL_MESSAGES } from './alerts'
+import { getRules, evaluateRules, describeRule } from './thresholds'
+import {
+  getExportFormats, getPngScale, serializeRenderedSvg, rasterizeSvg, toCsv, toJson, getExportFileName, downloadBlob, type ExportFormat
+} from './export'
+import { summarizeForecast } from './summary'
+import { sanitizeSvg, sanitizeSvgMarkup } from './svg-sanitizer'
+import { getColorRules, buildColorRuleCss, detectColors } from './color-rules'
+import { resolveThemeColors } from './style-presets'
+import { getCurrentConditions } from './current-conditions'
+import { escapeXml } from './xml'
+import defaultMessages from './translations/default'
+
+type ChartMode = 'meteogram' | 'nowcast'
 
 interface State {
   svgHtml: string
   isLoading: boolean
   error: string | null
   rawSvg: string | null
+  // `rawSvg` came from the source URL or pasted code rather than from the widget's own charts
+  externalSvg: boolean
   expanded: boolean
   displayMode: DisplayMode
   externalUrl: string | null
+  // Point picked on a linked map or the centroid of a selected feature; overrides the configured location
+  selectedLocation: Coordinates | null
+  // Last forecast built from the API, kept so styling changes can redraw it without refetching
+  forecast: ForecastPayload | null
+  forecastLocation: ForecastLocation | null
+  hover: HoverState | null
+  // Sunrise data for the dates on screen; `key` ties it to a location and date range
+  sun: { key: string, days: SunDay[] } | null
+  // Non-fatal message from the fetch layer, e.g. rate limiting or deprecation
+  notice: string | null
+  // Fetch time of the cached forecast on screen while a fresh one is pending or unavailable
+  staleSince: number | null
+  chartMode: ChartMode
+  // Radar nowcast for `nowcastLocation`, shown while chartMode is 'nowcast'
+  nowcast: NowcastPayload | null
+  nowcastLocation: ForecastLocation | null
+  // MetAlerts warnings; `key` is the cache key of the location they were fetched for
+  alerts: { key: string, items: WeatherAlert[] } | null
+  // The expanded popup shows warning details instead of the chart
+  alertDetailsOpen: boolean
+  exportMenuOpen: boolean
+  // Forecast data as a chart or as an HTML table
+  viewMode: 'chart' | 'table'
+  // Inner width of the widget from the resize observer; null until measured
+  containerWidth: number | null
+}
+
+interface ChartFrame {
+  width: number
+  height: number
+  margin: { top: number, right: number, bottom: number, left: number }
+  // First and last forecast time in epoch ms
+  start: number
+  end: number
+  pxPerHour: number
+  xAt: (time: number) => number
+  xPositions: number[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const QUARTER_HOUR_MS = HOUR_MS / 4
+
+// Refresh and retry timing for forecast services
+const MIN_REFRESH_MS = 60 * 1000
+const REFRESH_JITTER_MS = 60 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+const RETRY_BASE_MS = 2000
+const MAX_FETCH_ATTEMPTS = 3
+const FETCH_TIMEOUT_MS = 15000
+
+const HORIZON_HOURS: { [key in ForecastHorizon]: number } = {
+  '24h': 24,
+  '48h': 48,
+  '3d': 72,
+  full: Infinity
+}
+
+// Candidate x-axis label steps in hours; all divide a day evenly
+const LABEL_INTERVALS = [1, 2, 3, 6, 12, 24]
+
+interface HoverState {
+  index: number
+  // Crosshair position in pixels relative to the chart wrapper
+  x: number
+  top: number
+  bottom: number
+  wrapperWidth: number
+}
+
+/**
+ * Closed area between two series, split wherever either bound is missing.
+ * `xs` and the bounds are index-aligned; `y` maps a value to the viewBox.
+ */
+const buildBandPath = (xs: number[], lower: Array<number | null>, upper: Array<number | null>, y: (value: number) => number): string => {
+  const segments: string[] = []
+  let run: number[] = []
+  const flush = () => {
+    if (run.length > 1) {
+      const top = run.map((i, n) => `${n === 0 ? 'M' : 'L'}${xs[i].toFixed(2)},${y(upper[i]).toFixed(2)}`)
+      const bottom = run.slice().reverse().map(i => `L${xs[i].toFixed(2)},${y(lower[i]).toFixed(2)}`)
+      segments.push(`${top.join(' ')} ${bottom.join(' ')} Z`)
+    }
+    run = []
+  }
+  xs.forEach((_, i) => {
+    if (lower[i] === null || upper[i] === null) flush()
+    else run.push(i)
+  })
+  flush()
+  return segments.join(' ')
 }
 
 export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>, State> {
-  private refreshIntervalId: NodeJS.Timer = null
+  private refreshTimeoutId: ReturnType<typeof setTimeout> = null
+  // Nowcast data changes every few minutes, so it refreshes on its own timer
+  private nowcastTimeoutId: ReturnType<typeof setTimeout> = null
+  // Consecutive 429 answers, used for exponential back-off
+  private rateLimitCount = 0
+  // Consecutive 203 answers; each one doubles the refresh delay
+  private deprecatedCount = 0
+  private mapClickHandle: __esri.Handle = null
+  // Ids of the rules matching the last published forecast, per location cache key
+  private trippedRules = new Map<string, Set<string>>()
+  private svgContainerRef = React.createRef<HTMLDivElement>()
+  private expandButtonRef = React.createRef<HTMLButtonElement>()
+  private popupRef = React.createRef<HTMLDivElement>()
+  // The control that opened the popup, so focus can go back to it on close
+  private popupOpener: HTMLElement = null
+  private rootRef = React.createRef<HTMLDivElement>()
+  private resizeObserver: ResizeObserver = null
+  private selectionDataSource: DataSource = null
+  // Colours of the last chart, as published to the widget state
+  private svgColors = ''
 
   constructor (props) {
     super(props)
@@ -37,100 +173,487 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
       isLoading: false,
       error: null,
       rawSvg: null,
-      expanded: false
+      externalSvg: false,
+      expanded: false,
+      selectedLocation: null,
+      forecast: null,
+      forecastLocation: null,
+      hover: null,
+      sun: null,
+      notice: null,
+      staleSince: null,
+      chartMode: 'meteogram',
+      nowcast: null,
+      nowcastLocation: null,
+      alerts: null,
+      alertDetailsOpen: false,
+      exportMenuOpen: false,
+      viewMode: 'chart',
+      containerWidth: null
     }
   }
 
   componentDidMount(): void {
     this.handleDataSourceChange()
     this.setupAutoRefresh()
+    if (typeof ResizeObserver !== 'undefined' && this.rootRef.current) {
+      this.resizeObserver = new ResizeObserver(entries => {
+        const width = Math.round(entries[0].contentRect.width)
+        if (width !== this.state.containerWidth) this.setState({ containerWidth: width })
+      })
+      this.resizeObserver.observe(this.rootRef.current)
+    }
   }
 
-  componentDidUpdate(prevProps: AllWidgetProps<IMConfig>): void {
+  componentDidUpdate(prevProps: AllWidgetProps<IMConfig>, prevState: State): void {
+    // Focus moves into the popup when it opens and back to whatever opened it when it closes
+    if (this.state.expanded !== prevState.expanded) {
+      if (this.state.expanded) {
+        this.getPopupFocusables()[0]?.focus()
+      } else {
+        const opener = this.popupOpener
+        this.popupOpener = null
+        if (opener?.isConnected) opener.focus()
+        else this.expandButtonRef.current?.focus()
+      }
+    }
+
     const cfg = this.props.config
     const prev = prevProps.config
     const fetchRelevantChanged =
       cfg.sourceUrl !== prev.sourceUrl ||
+      cfg.latitude !== prev.latitude ||
+      cfg.longitude !== prev.longitude ||
+      cfg.altitude !== prev.altitude ||
+      cfg.forecastProvider !== prev.forecastProvider ||
+      cfg.showUncertainty !== prev.showUncertainty ||
+      cfg.panels !== prev.panels ||
+      cfg.providerBaseUrl !== prev.providerBaseUrl ||
+      cfg.customEndpointUrl !== prev.customEndpointUrl ||
+      cfg.customFieldMapping !== prev.customFieldMapping ||
       cfg.autoRefreshEnabled !== prev.autoRefreshEnabled ||
-      cfg.refreshInterval !== prev.refreshInterval
+      cfg.refreshInterval !== prev.refreshInterval ||
+      cfg.showWarnings !== prev.showWarnings ||
+      cfg.warningsFeedUrl !== prev.warningsFeedUrl ||
+      this.state.selectedLocation !== prevState.selectedLocation
 
     if (fetchRelevantChanged) {
       this.handleDataSourceChange()
       this.setupAutoRefresh()
-    } else if (cfg !== prev) {
-      if (this.state.rawSvg) this.processSvg(this.state.rawSvg)
+    } else if (cfg !== prev || this.getLocale() !== prevProps.intl?.locale || this.props.theme !== prevProps.theme) {
+      if (cfg.thresholdRules !== prev.thresholdRules && this.state.forecast) {
+        this.publishForecast(this.applyHorizon(this.state.forecast), this.state.forecastLocation)
+      }
+      if (this.state.chartMode === 'nowcast' && !cfg.enableNowcast) {
+        this.showMeteogram()
+      } else if (this.state.chartMode === 'nowcast' && this.state.nowcast) {
+        this.showNowcast(this.state.nowcast, this.state.nowcastLocation)
+      } else if (this.state.forecast) {
+        this.showForecast(this.state.forecast, this.getActiveLocation() ?? this.state.forecastLocation)
+      } else if (this.state.rawSvg) {
+        this.processSvg(this.state.rawSvg, this.state.externalSvg)
+      }
     }
   }
 
   componentWillUnmount(): void {
-    if (this.refreshIntervalId) clearInterval(this.refreshIntervalId)
+    if (this.refreshTimeoutId) clearTimeout(this.refreshTimeoutId)
+    if (this.nowcastTimeoutId) clearTimeout(this.nowcastTimeoutId)
+    if (this.mapClickHandle) this.mapClickHandle.remove()
+    if (this.resizeObserver) this.resizeObserver.disconnect()
   }
 
+  // Messages live in translations/; the English defaults cover locales without a file
+  translate: Translate = (id, values) =>
+    this.props.intl.formatMessage({ id, defaultMessage: defaultMessages[id] }, values)
+
+  getLocale = (): string | undefined => this.props.intl?.locale
+
+  // Chart markup and canvas exports need plain colours where the config refers to theme variables
+  getPaintConfig = (): IMConfig =>
+    resolveThemeColors(this.props.config, this.svgContainerRef.current ?? document.body)
+
+  getForecastTitle = (location: ForecastLocation | null): string =>
+    location?.name ? this.translate('weatherForecastFor', { name: location.name }) : this.translate('weatherForecast')
+
   handleDataSourceChange = () => {
     const { config } = this.props
-    if (config.sourceUrl) {
+    const location = this.getActiveLocation()
+    if (location && this.state.chartMode === 'nowcast') {
+      if (this.canShowNowcast()) this.loadNowcast(location)
+      else this.showMeteogram()
+    }
+    if (location) {
+      this.loadForecast(location)
+    } else if (config.sourceUrl) {
       this.fetchSvgFromUrl(config.sourceUrl)
     } else if (config.svgCode && !config.svgCode.trim().startsWith('<!--')) {
-      this.processSvg(config.svgCode)
+      this.setState({ forecast: null, forecastLocation: null, staleSince: null })
+      this.processSvg(config.svgCode, true)
     } else {
-      this.setState({ svgHtml: null, error: null, isLoading: false, rawSvg: null, displayMode: 'inline', externalUrl: null })
+      this.setState({ svgHtml: null, error: null, isLoading: false, rawSvg: null, forecast: null, forecastLocation: null, staleSince: null, displayMode: 'inline', externalUrl: null })
     }
   }
 
+  /**
+   * Shows the cached forecast for the location right away, then fetches a
+   * fresh one unless the cached copy has not expired yet.
+   */
+  loadForecast = (location: ForecastLocation): void => {
+    if (!this.isShowingLocation(location)) this.setState({ isLoading: true, error: null })
+    this.loadAlerts(location)
+    readCachedForecast(location, this.getProvider().id).then(entry => {
+      // The active location may have changed while the cache was read
+      const active = this.getActiveLocation()
+      if (!active || getCacheKey(active) !== getCacheKey(location)) return
+
+      if (entry) {
+        this.showForecast(entry.payload, location)
+        this.publishForecast(this.applyHorizon(entry.payload), location)
+        if (entry.expires !== null && entry.expires > Date.now()) {
+          this.setState({ staleSince: null })
+          this.scheduleRefresh(entry.expires)
+          return
+        }
+      }
+      this.setState({ staleSince: entry ? entry.fetchedAt : null })
+      this.fetchFromForecastApi(location, 1)
+    })
+  }
+
+  // Percentiles, dew point and UV index only come with the met.no "complete" product
+  getProvider = (): ForecastProvider => {
+    const { forecastProvider, showUncertainty, panels } = this.props.config
+    const needsComplete = showUncertainty || getPanels(panels).some(panel => panel === 'dewPoint' || panel === 'uvIndex')
+    const id = needsComplete && (forecastProvider ?? 'metno-compact') === 'metno-compact' ? 'metno-complete' : forecastProvider
+    return getForecastProvider(id)
+  }
+
+  getProviderOptions = (): ProviderOptions => {
+    const { providerBaseUrl, customEndpointUrl, customFieldMapping } = this.props.config
+    return {
+      baseUrl: providerBaseUrl ?? '',
+      customEndpointUrl: customEndpointUrl ?? '',
+      customFieldMapping: { ...DEFAULT_CUSTOM_FIELD_MAPPING, ...customFieldMapping }
+    }
+  }
+
+  isShowingLocation = (location: ForecastLocation): boolean => {
+    const { forecast, forecastLocation } = this.state
+    return !!forecast && !!forecastLocation && getCacheKey(forecastLocation) === getCacheKey(location)
+  }
+
+  getActiveLocation = (): ForecastLocation | null => {
+    return this.state.selectedLocation ?? getConfiguredLocation(this.props.config)
+  }
+
   setupAutoRefresh = (): void => {
-    if (this.refreshIntervalId) clearInterval(this.refreshIntervalId)
-    if (this.props.config.autoRefreshEnabled && this.props.config.refreshInterval > 0 && this.props.config.sourceUrl) {
-      const ms = this.props.config.refreshInterval * 60 * 1000
-      this.refreshIntervalId = setInterval(() => this.fetchSvgFromUrl(this.props.config.sourceUrl), ms)
+    this.scheduleRefresh(null)
+  }
+
+  /**
+   * Plans the next automatic refresh. Forecast API responses pass their
+   * Expires time so api.met.no is never asked again before new data can
+   * exist; sources without one fall back to the configured interval.
+   * `force` schedules even with auto refresh off (used to retry after 429).
+   * While the source keeps reporting a deprecated product the delay grows.
+   */
+  scheduleRefresh = (expires: number | null, force = false): void => {
+    if (this.refreshTimeoutId) clearTimeout(this.refreshTimeoutId)
+    this.refreshTimeoutId = null
+    const { autoRefreshEnabled, refreshInterval } = this.props.config
+    if ((!autoRefreshEnabled && !force) || !this.hasLocationSource()) return
+
+    let delay: number
+    if (expires !== null) {
+      // Spread tabs and widgets out a little so they do not all hit the API at once
+      delay = Math.max(MIN_REFRESH_MS, expires - Date.now()) + Math.random() * REFRESH_JITTER_MS
+    } else if (refreshInterval > 0) {
+      delay = refreshInterval * 60 * 1000
+    } else {
+      return
     }
+    if (this.deprecatedCount > 0) {
+      delay = Math.max(delay, Math.min(MAX_BACKOFF_MS, delay * Math.pow(2, this.deprecatedCount)))
+    }
+    this.refreshTimeoutId = setTimeout(this.backgroundRefresh, delay)
   }
 
-  toggleExpand = (): void => {
-    this.setState({ expanded: !this.state.expanded })
+  // Refresh without replacing the current chart with a spinner
+  backgroundRefresh = (): void => {
+    const location = this.getActiveLocation()
+    if (location) {
+      this.loadAlerts(location)
+      this.fetchFromForecastApi(location, 1)
+    } else if (this.props.config.sourceUrl) {
+      this.fetchSvgFromUrl(this.props.config.sourceUrl, true)
+    }
   }
 
-  fetchSvgFromUrl = (url: string, attempt = 1): void => {
-    if (attempt === 1) {
-      this.setState({ isLoading: true, error: null })
+  hasLocationSource = (): boolean => {
+    return !!(this.getActiveLocation() || this.props.config.sourceUrl)
+  }
+
+  onActiveViewChange = (jimuMapView: JimuMapView): void => {
+    if (this.mapClickHandle) {
+      this.mapClickHandle.remove()
+      this.mapClickHandle = null
     }
+    if (!jimuMapView?.view) return
+    this.mapClickHandle = jimuMapView.view.on('click', (evt) => {
+      this.selectGeometry(evt.mapPoint)
+    })
+  }
 
-    const coords = this.extractCoordinates(url)
-    if (coords) {
-      this.fetchFromForecastApi(url, coords, attempt)
+  onDataSourceCreated = (ds: DataSource): void => {
+    this.selectionDataSource = ds
+  }
+
+  onSelectionChange = (selection: ImmutableArray<string>): void => {
+    const record = this.selectionDataSource?.getSelectedRecords()?.[0] as FeatureDataRecord
+    if (!selection?.length || !record) {
+      this.setState({ selectedLocation: null })
       return
     }
+    record.getJSGeometry()
+      .then(geometry => { this.selectGeometry(geometry) })
+      .catch(err => { console.error('Failed to read geometry of selected feature:', err) })
+  }
 
-    this.fetchSvgDirect(url, attempt)
+  selectGeometry = (geometry: __esri.Geometry): void => {
+    if (!geometry) return
+    this.toGeographic(this.getCentroid(geometry))
+      .then(coords => {
+        if (coords) this.setState({ selectedLocation: coords })
+      })
+      .catch(err => { console.error('Failed to resolve selected location:', err) })
   }
 
-  fetchSvgDirect = (url: string, attempt = 1): void => {
-    let requestUrl = url
-    try {
-      const urlObj = new URL(url)
-      urlObj.searchParams.set('nocache', Date.now().toString())
-      requestUrl = urlObj.toString()
-    } catch (err) {
-      requestUrl = url + (url.includes('?') ? '&' : '?') + 'nocache=' + Date.now()
+  getCentroid = (geometry: __esri.Geometry): __esri.Point => {
+    switch (geometry.type) {
+      case 'point':
+        return geometry as __esri.Point
+      case 'polygon':
+        return (geometry as __esri.Polygon).centroid
+      default:
+        return geometry.extent?.center ?? null
     }
+  }
 
-    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
-    let timeoutId: ReturnType<typeof setTimeout> | null = null
-    if (controller) {
-      timeoutId = setTimeout(() => controller.abort(), 15000)
+  toGeographic = async (point: __esri.Point): Promise<Coordinates | null> => {
+    if (!point) return null
+    // latitude/longitude are only populated for WGS84 and Web Mercator
+    if (Number.isFinite(point.latitude) && Number.isFinite(point.longitude)) {
+      return { lat: point.latitude, lon: point.longitude }
+    }
+    await projection.load()
+    const projected = projection.project(point, SpatialReference.WGS84) as __esri.Point
+    if (!projected) return null
+    return { lat: projected.y, lon: projected.x }
+  }
+
+  clearSelectedLocation = (): void => {
+    this.setState({ selectedLocation: null })
+  }
+
+  toggleExpand = (evt?: React.SyntheticEvent<HTMLElement>): void => {
+    if (!this.state.expanded) this.rememberPopupOpener(evt?.currentTarget)
+    this.setState({ expanded: !this.state.expanded, hover: null, alertDetailsOpen: false })
+  }
+
+  getPopupFocusables = (): HTMLElement[] => {
+    const popup = this.popupRef.current
+    if (!popup) return []
+    return Array.from(popup.querySelectorAll<HTMLElement>('button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'))
+      .filter(el => !el.hasAttribute('disabled'))
+  }
+
+  // Keeps Tab inside the popup and closes it on Escape
+  onPopupKeyDown = (evt: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (evt.key === 'Escape') {
+      evt.preventDefault()
+      this.toggleExpand()
+      return
+    }
+    if (evt.key !== 'Tab') return
+    const focusables = this.getPopupFocusables()
+    if (!focusables.length) {
+      evt.preventDefault()
+      return
+    }
+    const first = focusables[0]
+    const last = focusables[focusables.length - 1]
+    if (evt.shiftKey && (document.activeElement === first || !this.popupRef.current.contains(document.activeElement))) {
+      evt.preventDefault()
+      last.focus()
+    } else if (!evt.shiftKey && document.activeElement === last) {
+      evt.preventDefault()
+      first.focus()
+    }
+  }
+
+  toggleViewMode = (): void => {
+    this.setState({ viewMode: this.state.viewMode === 'table' ? 'chart' : 'table', hover: null })
+  }
+
+  toggleExportMenu = (): void => {
+    this.setState({ exportMenuOpen: !this.state.exportMenuOpen })
+  }
+
+  onExportMenuKeyDown = (evt: React.KeyboardEvent): void => {
+    if (evt.key === 'Escape' && this.state.exportMenuOpen) {
+      // Only the menu closes, not the popup around it
+      evt.stopPropagation()
+      this.setState({ exportMenuOpen: false })
+    }
+  }
+
+  exportChart = (format: ExportFormat): void => {
+    this.setState({ exportMenuOpen: false })
+    const config = this.getPaintConfig()
+    const location = this.state.chartMode === 'nowcast' ? this.state.nowcastLocation : this.state.forecastLocation
+    const forecast = this.getDisplayedForecast()
+
+    if (format === 'csv' || format === 'json') {
+      if (!forecast) return
+      const text = format === 'csv' ? toCsv(forecast, location) : toJson(forecast, location)
+      const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+      downloadBlob(new Blob([text], { type }), getExportFileName(location, format))
+      return
+    }
+
+    const rendered = this.svgContainerRef.current?.querySelector('svg')
+    if (!rendered) return
+    const svg = serializeRenderedSvg(rendered, config.overallBackground)
+    if (format === 'svg') {
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), getExportFileName(location, 'svg'))
+      return
     }
+    const { width, height } = rendered.viewBox.baseVal
+    rasterizeSvg(svg, width, height, getPngScale(config.pngScale), config.overallBackground)
+      .then(blob => { downloadBlob(blob, getExportFileName(location, 'png')) })
+      .catch(err => {
+        console.error('Failed to export PNG:', err)
+        this.setState({ notice: this.translate('pngExportFailed') })
+      })
+  }
+
+  // Safari does not focus buttons on click, so the clicked element wins over document.activeElement
+  rememberPopupOpener = (target?: HTMLElement): void => {
+    const active = target ?? document.activeElement
+    this.popupOpener = active instanceof HTMLElement && active !== document.body ? active : null
+  }
+
+  openAlertDetails = (evt?: React.SyntheticEvent<HTMLElement>): void => {
+    if (!this.state.expanded) this.rememberPopupOpener(evt?.currentTarget)
+    this.setState({ expanded: true, hover: null, alertDetailsOpen: true })
+  }
+
+  closeAlertDetails = (): void => {
+    this.setState({ alertDetailsOpen: false })
+  }
 
-    const fetchOptions: RequestInit = {
-      cache: 'no-store',
-      mode: 'cors',
-      credentials: 'omit',
-      headers: { Accept: 'image/svg+xml,text/html;q=0.9,*/*;q=0.8' }
+  // Nowcast only exists for forecast locations inside the met.no radar area
+  canShowNowcast = (): boolean => {
+    const location = this.getActiveLocation()
+    return !!this.props.config.enableNowcast && !!location && isInNowcastArea(location.lat, location.lon)
+  }
+
+  toggleChartMode = (): void => {
+    if (this.state.chartMode === 'nowcast') {
+      this.showMeteogram()
+      return
     }
-    if (controller) fetchOptions.signal = controller.signal
+    const location = this.getActiveLocation()
+    if (!location) return
+    this.setState({ chartMode: 'nowcast', hover: null }, () => { this.loadNowcast(location) })
+  }
+
+  showMeteogram = (): void => {
+    if (this.nowcastTimeoutId) clearTimeout(this.nowcastTimeoutId)
+    this.nowcastTimeoutId = null
+    this.setState({ chartMode: 'meteogram', hover: null }, this.redrawForecast)
+  }
 
-    fetch(requestUrl, fetchOptions)
-      .then(r => { if (!r.ok) throw new Error(`HTTP ${r.status}`); return r.text() })
-      .then(text => {
-        const t = text.trim()
+  loadNowcast = (location: ForecastLocation): void => {
+    const { nowcast, nowcastLocation } = this.state
+    const isCurrent = !!nowcast && !!nowcastLocation && getCacheKey(nowcastLocation) === getCacheKey(location)
+    if (isCurrent) this.showNowcast(nowcast, location)
+    else this.setState({ isLoading: true, error: null })
+
+    fetchNowcast(location)
+      .then(result => {
+        const active = this.getActiveLocation()
+        if (this.state.chartMode !== 'nowcast' || !active || getCacheKey(active) !== getCacheKey(location)) return
+        if (!result.payload) {
+          this.setState({ nowcast: null, nowcastLocation: null, notice: this.translate('nowcastUnavailable') })
+          this.showMeteogram()
+          return
+        }
+        this.setState({ nowcast: result.payload, nowcastLocation: location })
+        this.showNowcast(result.payload, location)
+        this.scheduleNowcastRefresh(result.expires)
+      })
+      .catch(err => {
+        console.error('Failed to load precipitation nowcast:', err)
+        if (this.state.chartMode !== 'nowcast') return
+        if (isCurrent) {
+          const retryAfter = err instanceof HttpError && err.status === 429 ? err.retryAfter : null
+          this.scheduleNowcastRefresh(retryAfter !== null ? Date.now() + retryAfter : null)
+          return
+        }
+        this.setState({ notice: this.translate('nowcastFailed') })
+        this.showMeteogram()
+      })
+  }
+
+  showNowcast = (nowcast: NowcastPayload, location: ForecastLocation): void => {
+    this.processSvg(generateNowcastSvg(nowcast, {
+      config: this.getPaintConfig(),
+      title: location?.name || this.translate('nowcastTitle'),
+      translate: this.translate,
+      locale: this.getLocale(),
+      timeZone: this.getTimeZone(location)
+    }))
+  }
+
+  scheduleNowcastRefresh = (expires: number | null): void => {
+    if (this.nowcastTimeoutId) clearTimeout(this.nowcastTimeoutId)
+    this.nowcastTimeoutId = null
+    const { autoRefreshEnabled, nowcastRefreshInterval } = this.props.config
+    if (!autoRefreshEnabled) return
+    const delay = expires !== null
+      ? Math.max(MIN_REFRESH_MS, expires - Date.now())
+      : Math.max(1, nowcastRefreshInterval || 5) * 60 * 1000
+    this.nowcastTimeoutId = setTimeout(() => {
+      const location = this.getActiveLocation()
+      if (location && this.state.chartMode === 'nowcast') this.loadNowcast(location)
+    }, delay)
+  }
+
+  // `background` keeps the current chart on screen until the new one is ready
+  fetchSvgFromUrl = (url: string, background = false): void => {
+    if (!background) {
+      this.setState({ isLoading: true, error: null })
+    }
+
+    const coords = extractCoordinates(url)
+    if (coords) {
+      this.fetchFromForecastApi(coords, 1)
+      return
+    }
+
+    this.fetchSvgDirect(url)
+  }
+
+  fetchSvgDirect = (url: string, attempt = 1): void => {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
+    const timeoutId = controller ? setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS) : null
+
+    fetchMetText(url, 'image/svg+xml,text/html;q=0.9,*/*;q=0.8', controller?.signal)
+      .then(result => {
+        this.noteFetchSucceeded(result.deprecated)
+        const t = (result.data as string).trim()
         let svgString: string
 
         if (t.startsWith('<svg') || t.startsWith('<?xml')) {
@@ -142,36 +665,32 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
           svgString = svgEl.outerHTML
         }
 
-        this.processSvg(svgString)
-
-        if (svgString.startsWith('<svg')) {
-          this.props.onSettingChange({
-            id: this.props.id,
-            config: this.props.config.set('svgCode', svgString)
-          })
-        }
+        this.setState({ forecast: null, forecastLocation: null, staleSince: null })
+        this.processSvg(svgString, true)
+        this.scheduleRefresh(result.expires)
       })
       .catch(err => {
-        if (controller) controller.abort()
-        if (timeoutId) {
-          clearTimeout(timeoutId)
-          timeoutId = null
+        if (err instanceof HttpError && err.status === 429) {
+          this.handleRateLimit(err)
+          return
         }
-        if (attempt < 5) {
-          setTimeout(() => this.fetchSvgDirect(url, attempt + 1), 1000 * attempt)
+        const retryable = !(err instanceof HttpError) || err.status >= 500
+        if (retryable && attempt < MAX_FETCH_ATTEMPTS) {
+          setTimeout(() => this.fetchSvgDirect(url, attempt + 1), RETRY_BASE_MS * Math.pow(2, attempt - 1))
           return
         }
         console.error('Failed to fetch SVG:', err)
+        this.scheduleRefresh(null)
 
         const fallback = this.state.rawSvg || this.props.config.svgCode
         if (fallback && fallback.trim().startsWith('<svg')) {
-          this.processSvg(fallback)
+          this.processSvg(fallback, !this.state.rawSvg || this.state.externalSvg)
           return
         }
 
         this.setState({
           isLoading: false,
-          error: 'Unable to load meteogram from source.'
+          error: this.translate('unableToLoadSource')
         })
       })
       .finally(() => {
@@ -179,186 +698,401 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
       })
   }
 
-  extractCoordinates = (url: string): { lat: number, lon: number } | null => {
-    try {
-      const parsed = new URL(url)
-      const pathSegments = parsed.pathname.split('/').filter(Boolean)
-      const coordSegment = pathSegments.find(seg => /-?\d+\.\d+,-?\d+\.\d+/.test(seg))
-      if (!coordSegment) return null
-      const [latRaw, lonRaw] = coordSegment.split(',')
-      const lat = parseFloat(latRaw)
-      const lon = parseFloat(lonRaw)
-      if (Number.isFinite(lat) && Number.isFinite(lon)) {
-        return { lat, lon }
-      }
-      return null
-    } catch (err) {
-      return null
-    }
-  }
-
-  fetchFromForecastApi = (originalUrl: string, coords: { lat: number, lon: number }, attempt: number): void => {
-    const query = new URLSearchParams({
-      lat: coords.lat.toString(),
-      lon: coords.lon.toString()
-    })
-    const endpoint = `https://api.met.no/weatherapi/locationforecast/2.0/compact?${query.toString()}`
-
-    fetch(endpoint, {
-      cache: 'no-store',
-      credentials: 'omit',
-      headers: {
-        Accept: 'application/json'
-      }
-    })
-      .then(res => {
-        if (!res.ok) throw new Error(`Forecast HTTP ${res.status}`)
-        return res.json()
-      })
-      .then(data => {
-        const payload = this.transformForecast(data)
-        if (!payload || payload.points.length === 0) throw new Error('No forecast points available.')
-        const svg = this.generateForecastSvg(payload)
-        this.processSvg(svg)
-        this.props.onSettingChange({
-          id: this.props.id,
-          config: this.props.config.set('svgCode', svg)
-        })
+  fetchFromForecastApi = (location: ForecastLocation, attempt: number): void => {
+    const provider = this.getProvider()
+    provider.fetchForecast(location, this.getProviderOptions())
+      .then(result => {
+        this.noteFetchSucceeded(result.deprecated)
+        let payload: ForecastPayload
+        if (result.notModified && this.isShowingLocation(location)) {
+          payload = this.state.forecast
+          this.setState({ isLoading: false, error: null })
+        } else {
+          payload = result.payload
+          this.showForecast(payload, location)
+          this.publishForecast(this.applyHorizon(payload), location)
+        }
+        this.setState({ staleSince: null })
+        writeCachedForecast(location, provider.id, payload, result.expires)
+        this.scheduleRefresh(result.expires)
       })
       .catch(err => {
         console.error('Failed to build meteogram from forecast API:', err)
-        if (attempt < 5) {
-          setTimeout(() => this.fetchFromForecastApi(originalUrl, coords, attempt + 1), 1000 * attempt)
+        if (err instanceof HttpError && err.status === 429) {
+          this.handleRateLimit(err)
+          return
+        }
+        // Client errors will not fix themselves; only network failures and 5xx are retried
+        const retryable = !(err instanceof HttpError) || err.status >= 500
+        if (retryable && attempt < MAX_FETCH_ATTEMPTS) {
+          setTimeout(() => this.fetchFromForecastApi(location, attempt + 1), RETRY_BASE_MS * Math.pow(2, attempt - 1))
+          return
+        }
+        this.scheduleRefresh(null)
+        // A cached forecast for this place beats the generic fallback; it stays marked as stale
+        if (this.isShowingLocation(location)) {
+          this.setState({ isLoading: false })
           return
         }
         const fallback = this.state.rawSvg || this.props.config.svgCode
         if (fallback && fallback.trim().startsWith('<svg')) {
-          this.processSvg(fallback)
+          this.processSvg(fallback, !this.state.rawSvg || this.state.externalSvg)
           return
         }
         this.setState({
           isLoading: false,
-          error: 'Unable to load forecast data.'
+          error: this.translate('unableToLoadForecast')
         })
       })
   }
 
-  transformForecast = (data: any): ForecastPayload | null => {
-    const updatedAt: string | undefined = data?.properties?.meta?.updated_at
-    const series: any[] = Array.isArray(data?.properties?.timeseries) ? data.properties.timeseries : []
-    if (!series.length) return null
-
-    const points: ForecastPoint[] = []
-    for (const entry of series.slice(0, 48)) {
-      const time = entry?.time
-      const instant = entry?.data?.instant?.details ?? {}
-      if (!time || typeof instant.air_temperature !== 'number' || typeof instant.wind_speed !== 'number') continue
-
-      const next1 = entry?.data?.next_1_hours?.details ?? null
-      const next6 = entry?.data?.next_6_hours?.details ?? null
-
-      points.push({
-        time,
-        temperature: instant.air_temperature,
-        windSpeed: instant.wind_speed,
-        windGust: typeof instant.wind_speed_of_gust === 'number'
-          ? instant.wind_speed_of_gust
-          : typeof next1?.wind_speed_of_gust === 'number'
-            ? next1.wind_speed_of_gust
-            : typeof next6?.wind_speed_of_gust === 'number'
-              ? next6.wind_speed_of_gust
-              : null,
-        precipitation: typeof next1?.precipitation_amount === 'number'
-          ? next1.precipitation_amount
-          : typeof next6?.precipitation_amount === 'number'
-            ? next6.precipitation_amount / 6
-            : null
+  noteFetchSucceeded = (deprecated: boolean): void => {
+    this.rateLimitCount = 0
+    this.deprecatedCount = deprecated ? this.deprecatedCount + 1 : 0
+    this.setState({
+      notice: deprecated ? this.translate('productDeprecated') : null
+    })
+  }
+
+  handleRateLimit = (err: HttpError): void => {
+    this.rateLimitCount++
+    const delay = err.retryAfter ?? Math.min(MAX_BACKOFF_MS, MIN_REFRESH_MS * Math.pow(2, this.rateLimitCount))
+    const minutes = Math.max(1, Math.round(delay / 60000))
+    this.setState({
+      notice: this.translate('rateLimited', { minutes }),
+      isLoading: false
+    })
+    if (!this.state.svgHtml) {
+      this.setState({ error: this.translate('unableToLoadForecast') })
+    }
+    this.scheduleRefresh(Date.now() + delay, true)
+  }
+
+  showForecast = (forecast: ForecastPayload, location: ForecastLocation): string => {
+    const svg = this.generateForecastSvg(this.applyHorizon(forecast), location)
+    this.setState({ forecast, forecastLocation: location, hover: null })
+    // Kept up to date in the background while the nowcast is on screen
+    if (this.state.chartMode === 'meteogram') this.processSvg(svg)
+    this.loadSunData(forecast, location)
+    return svg
+  }
+
+  getSunKey = (forecast: ForecastPayload, location: ForecastLocation): { key: string, dates: string[] } | null => {
+    const points = this.applyHorizon(forecast).points
+    if (!location || !points.length) return null
+    const dates = getUtcDates(new Date(points[0].time).getTime(), new Date(points[points.length - 1].time).getTime())
+    return { key: `${getCacheKey(location)}|${dates.join(',')}`, dates }
+  }
+
+  /** Fetches sunrise data for the displayed days and redraws once it is in. */
+  loadSunData = (forecast: ForecastPayload, location: ForecastLocation): void => {
+    const { showNightShading, showSunTimes } = this.props.config
+    const sunKey = this.getSunKey(forecast, location)
+    if ((!showNightShading && !showSunTimes) || !sunKey || this.state.sun?.key === sunKey.key) return
+    getSunDays(location, sunKey.dates)
+      .then(days => {
+        if (!this.isShowingLocation(location)) return
+        this.setState({ sun: { key: sunKey.key, days } }, this.redrawForecast)
       })
+      .catch(err => { console.error('Failed to load sunrise data:', err) })
+  }
+
+  /** Fetches the warnings for the location and redraws so their periods show on the chart. */
+  loadAlerts = (location: ForecastLocation): void => {
+    const { showWarnings, warningsFeedUrl } = this.props.config
+    if (!showWarnings) {
+      if (this.state.alerts) this.setState({ alerts: null }, this.redrawForecast)
+      return
     }
+    fetchAlerts(location, warningsFeedUrl ?? '')
+      .then(items => {
+        const active = this.getActiveLocation()
+        if (!active || getCacheKey(active) !== getCacheKey(location)) return
+        this.setState({ alerts: { key: getCacheKey(location), items } }, this.redrawForecast)
+      })
+      // Warnings are an extra; the forecast stays usable without them
+      .catch(err => { console.error('Failed to load weather warnings:', err) })
+  }
+
+  getAlerts = (location: ForecastLocation | null): WeatherAlert[] => {
+    const { alerts } = this.state
+    return location && alerts && alerts.key === getCacheKey(location) ? alerts.items : []
+  }
+
+  redrawForecast = (): void => {
+    const { forecast, forecastLocation, chartMode } = this.state
+    if (forecast && chartMode === 'meteogram') this.processSvg(this.generateForecastSvg(this.applyHorizon(forecast), forecastLocation))
+  }
+
+  getOutputDataSource = async (): Promise<DataSource> => {
+    const dsId = getOutputDataSourceId(this.props.id)
+    const manager = DataSourceManager.getInstance()
+    const existing = manager.getDataSource(dsId)
+    if (existing) return existing
+    if (!this.props.outputDataSources?.includes(dsId)) return null
+    return manager.createDataSourceByUseDataSource(Immutable({ dataSourceId: dsId, mainDataSourceId: dsId }))
+  }
 
-    if (!points.length) return null
+  /**
+   * Pushes the parsed forecast rows into the widget's output data source and
+   * announces the new record set so other widgets can follow the same refresh.
+   */
+  publishForecast = (forecast: ForecastPayload, coords: Coordinates): void => {
+    this.getOutputDataSource()
+      .then(ds => {
+        const records = ds
+          ? toOutputFeatures(forecast, coords).map(feature => ds.buildRecord(new Graphic(feature)))
+          : []
+        if (ds) {
+          ds.setSourceRecords(records)
+          ds.setStatus(DataSourceStatus.Unloaded)
+          ds.setCountStatus(DataSourceStatus.Unloaded)
+        }
+        MessageManager.getInstance().publishMessage(new DataRecordSetChangeMessage(this.props.id, RecordSetChangeType.CreateUpdate, [{
+          records,
+          fields: Object.keys(OUTPUT_FIELDS),
+          dataSource: ds,
+          name: getOutputDataSourceId(this.props.id)
+        }]))
+        this.publishTrippedRules(forecast, coords, ds, records)
+      })
+      .catch(err => { console.error('Failed to publish forecast:', err) })
+  }
 
+  /**
+   * Selects the forecast rows behind a threshold rule the first time it
+   * matches for a location, so a text or map widget listening for selection
+   * changes can react. Rules that stop matching can trip again later; going
+   * back to a location does not repeat the rules already announced for it.
+   */
+  publishTrippedRules = (forecast: ForecastPayload, coords: Coordinates, ds: DataSource, records: DataRecord[]): void => {
+    // Without an output data source there are no rows to select
+    if (!ds || !records.length) return
+    const locationKey = coords ? getCacheKey(coords) : ''
+    const matches = evaluateRules(forecast.points, getRules(this.props.config.thresholdRules))
+    const tripped = this.trippedRules.get(locationKey) ?? new Set<string>()
+    const newlyTripped = matches.filter(match => !tripped.has(match.rule.id))
+    this.trippedRules.set(locationKey, new Set(matches.map(match => match.rule.id)))
+    if (!newlyTripped.length) return
+
+    // Record ids are the OBJECTIDs given out by toOutputFeatures
+    const ids = new Set(newlyTripped.flatMap(match => match.spans.flatMap(span => span.indices)).map(i => (i + 1).toString()))
+    const selected = records.filter(record => ids.has(record.getId()))
+    if (!selected.length) return
+    ds.selectRecordsByIds(Array.from(ids), selected)
+    MessageManager.getInstance().publishMessage(new DataRecordsSelectionChangeMessage(this.props.id, selected, [ds.id]))
+  }
+
+  /**
+   * Cuts the forecast down to the configured horizon. The full payload stays in
+   * state so switching horizons does not need a new request.
+   */
+  applyHorizon = (forecast: ForecastPayload): ForecastPayload => {
+    const hours = HORIZON_HOURS[this.props.config.forecastHorizon ?? '48h'] ?? 48
+    if (!Number.isFinite(hours) || !forecast.points.length) return forecast
+    const end = new Date(forecast.points[0].time).getTime() + hours * HOUR_MS
     return {
-      updatedAt: updatedAt || new Date().toISOString(),
-      points
+      ...forecast,
+      points: forecast.points.filter(p => new Date(p.time).getTime() < end)
     }
   }
 
-  generateForecastSvg = (forecast: ForecastPayload): string => {
-    const { config } = this.props
+  getDisplayedForecast = (): ForecastPayload | null => {
+    return this.state.forecast ? this.applyHorizon(this.state.forecast) : null
+  }
+
+  /**
+   * Geometry shared by the SVG generator and the hover overlay, in viewBox units.
+   * The x axis is proportional to time, so hourly and 6-hourly steps keep their
+   * true widths when the API switches resolution.
+   */
+  getChartFrame = (forecast: ForecastPayload): ChartFrame => {
     const width = 960
-    const height = 540
     const margin = { top: 64, right: 36, bottom: 80, left: 72 }
+    const height = margin.top + getPlotHeight(getPanels(this.props.config.panels)) + margin.bottom
     const innerWidth = width - margin.left - margin.right
-    const innerHeight = height - margin.top - margin.bottom
-    const tempSection = innerHeight * 0.55
-    const precipSection = innerHeight * 0.25
-    const windSection = innerHeight * 0.2
-
-    const pts = forecast.points
-    const temperatures = pts.map(p => p.temperature)
-    const windSpeeds = pts.map(p => p.windSpeed)
-    const gusts = pts.map(p => p.windGust ?? p.windSpeed)
-    const precipValues = pts.map(p => p.precipitation ?? 0)
-
-    const tempMax = Math.max(...temperatures, 5)
-    const tempMin = Math.min(...temperatures, -5)
-    const tempRange = Math.max(tempMax - tempMin, 5)
-
-    const windMax = Math.max(...gusts, ...windSpeeds, 5)
-    const precipMax = Math.max(...precipValues, 1)
+    const times = forecast.points.map(p => new Date(p.time).getTime())
+    const start = times[0] ?? 0
+    const end = times.length > 1 ? times[times.length - 1] : start + HOUR_MS
+    const pxPerHour = innerWidth / ((end - start) / HOUR_MS)
+    const xAt = (time: number) => margin.left + (time - start) / HOUR_MS * pxPerHour
+    return {
+      width,
+      height,
+      margin,
+      start,
+      end,
+      pxPerHour,
+      xAt,
+      xPositions: times.map(xAt)
+    }
+  }
 
-    const xStep = pts.length > 1 ? innerWidth / (pts.length - 1) : 0
+  generateForecastSvg = (forecast: ForecastPayload, location: ForecastLocation | null): string => {
+    const config = this.getPaintConfig()
+    const { width, height, margin, start, end, pxPerHour, xAt, xPositions } = this.getChartFrame(forecast)
+    const layout = layoutPanels(getPanels(config.panels), margin.top, height - margin.top - margin.bottom)
+    const findPanel = (id: PanelId) => layout.find(panel => panel.id === id) ?? null
+    const tempPanel = findPanel('temperature')
+    const precipPanel = findPanel('precipitation')
+    const windPanel = findPanel('wind')
+    const tempSection = tempPanel?.height ?? 0
+    const precipSection = precipPanel?.height ?? 0
+    const windSection = windPanel?.height ?? 0
+
+    const { temperatureUnit, windUnit, precipitationUnit } = config
+    const toTemp = (celsius: number) => convertTemperature(celsius, temperatureUnit)
+    const toWind = (ms: number) => convertWind(ms, windUnit)
+    const toPrecip = (mm: number) => convertPrecipitation(mm, precipitationUnit)
 
-    const xPos = (index: number) => margin.left + xStep * index
-    const tempY = (value: number) => margin.top + (tempMax - value) / tempRange * tempSection
+    const pts = forecast.points
+    const temperatures = pts.map(p => toTemp(p.temperature))
+    const windSpeeds = pts.map(p => toWind(p.windSpeed))
+    const gusts = pts.map(p => toWind(p.windGust ?? p.windSpeed))
+    const precipValues = pts.map(p => toPrecip(p.precipitation ?? 0))
+
+    // Uncertainty series stay index-aligned with the points; null where the source has no value
+    const showUncertainty = !!config.showUncertainty
+    const spread = (value: number | null | undefined, convert: (v: number) => number) =>
+      showUncertainty && typeof value === 'number' ? convert(value) : null
+    const tempLow = pts.map(p => spread(p.temperatureP10, toTemp))
+    const tempHigh = pts.map(p => spread(p.temperatureP90, toTemp))
+    const windLow = pts.map(p => spread(p.windSpeedP10, toWind))
+    const windHigh = pts.map(p => spread(p.windSpeedP90, toWind))
+    const precipHigh = pts.map(p => spread(p.precipitationMax, toPrecip))
+    const defined = (values: Array<number | null>) => values.filter((v): v is number => v !== null)
+
+    // Minimum spans are defined in SI units so every unit system gets the same headroom
+    const tempMax = Math.max(...temperatures, ...defined(tempHigh), toTemp(5))
+    const tempMin = Math.min(...temperatures, ...defined(tempLow), toTemp(-5))
+    const tempRange = Math.max(tempMax - tempMin, toTemp(5) - toTemp(0))
+
+    const windMax = Math.max(...gusts, ...windSpeeds, ...defined(windHigh), toWind(5))
+    const precipMax = Math.max(...precipValues, ...defined(precipHigh), toPrecip(1))
+
+    // Weather symbols sit in a band at the top of the temperature panel
+    const symbolSize = 28
+    const hasSymbols = !!tempPanel && pts.some(p => p.symbolCode)
+    const symbolBand = hasSymbols ? symbolSize + 8 : 0
+
+    const xPos = (index: number) => xPositions[index]
+    const tempTop = tempPanel?.top ?? 0
+    const tempY = (value: number) => tempTop + symbolBand + (tempMax - value) / tempRange * (tempSection - symbolBand)
     const precipHeight = (value: number) => (value / precipMax) * precipSection
-    const precipBase = margin.top + tempSection + precipSection
-    const windYBase = precipBase + windSection
-    const windY = (value: number) => windYBase - (value / windMax) * windSection
+    const precipBase = precipPanel ? precipPanel.top + precipPanel.height : 0
+    const windYBase = windPanel ? windPanel.top + windPanel.height : 0
+
+    // Direction markers get their own strip along the bottom of the wind panel
+    const windDirectionStyle = config.windDirectionStyle ?? 'arrows'
+    const showWindDirection = !!windPanel && windDirectionStyle !== 'none' && pts.some(p => p.windDirection !== null)
+    const windMarkerBand = showWindDirection ? 24 : 0
+    const windY = (value: number) => windYBase - windMarkerBand - (value / windMax) * (windSection - windMarkerBand)
 
     const tempPath = pts
-      .map((p, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${tempY(p.temperature).toFixed(2)}`)
+      .map((_, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${tempY(temperatures[i]).toFixed(2)}`)
       .join(' ')
 
     const windPath = pts
-      .map((p, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${windY(p.windSpeed).toFixed(2)}`)
+      .map((_, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${windY(windSpeeds[i]).toFixed(2)}`)
       .join(' ')
 
     const gustPath = pts
-      .map((p, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${windY((p.windGust ?? p.windSpeed)).toFixed(2)}`)
+      .map((_, i) => `${i === 0 ? 'M' : 'L'}${xPos(i).toFixed(2)},${windY(gusts[i]).toFixed(2)}`)
       .join(' ')
 
-    const hoursFormatter = new Intl.DateTimeFormat(undefined, {
+    const tempBandPath = buildBandPath(xPositions, tempLow, tempHigh, tempY)
+    const windBandPath = buildBandPath(xPositions, windLow, windHigh, windY)
+
+    const timeZone = this.getTimeZone(location)
+    const locale = this.getLocale()
+    const hoursFormatter = new Intl.DateTimeFormat(locale, {
       hour: 'numeric',
-      hour12: false
+      hourCycle: 'h23',
+      timeZone
     })
-    const dayFormatter = new Intl.DateTimeFormat(undefined, {
+    const dayFormatter = new Intl.DateTimeFormat(locale, {
       weekday: 'short',
       month: 'short',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone
     })
 
-    const updatedText = new Intl.DateTimeFormat(undefined, {
+    const updatedText = new Intl.DateTimeFormat(locale, {
       dateStyle: 'medium',
-      timeStyle: 'short'
+      timeStyle: 'short',
+      timeZone
     }).format(new Date(forecast.updatedAt))
 
-    const xLabels: { x: number, hour: string, day?: string }[] = []
-    pts.forEach((p, i) => {
-      const date = new Date(p.time)
-      const hourLabel = hoursFormatter.format(date)
-      if (i % 3 === 0) {
-        const entry: { x: number, hour: string, day?: string } = { x: xPos(i), hour: hourLabel }
-        if (date.getUTCHours() === 0) {
-          entry.day = dayFormatter.format(date)
-        }
-        xLabels.push(entry)
+    // Label spacing follows the horizon: the shortest whole-hour step that keeps labels apart.
+    // Walk in quarter hours so zones with :30 and :45 offsets still land on their full hours.
+    const labelHours = LABEL_INTERVALS.find(h => h * pxPerHour >= 32) ?? 24
+    const xLabels: { x: number, time: number, hour: string, day?: string }[] = []
+    for (let t = Math.ceil(start / QUARTER_HOUR_MS) * QUARTER_HOUR_MS; t <= end; t += QUARTER_HOUR_MS) {
+      const date = new Date(t)
+      const { hour, minute } = getZonedTime(date, timeZone)
+      if (minute !== 0 || hour % labelHours !== 0) continue
+      const entry: { x: number, time: number, hour: string, day?: string } = { x: xAt(t), time: t, hour: hoursFormatter.format(date) }
+      if (hour === 0) {
+        entry.day = dayFormatter.format(date)
       }
-    })
+      xLabels.push(entry)
+    }
+
+    // Night shading and sun times, once the sunrise data for these days is in
+    const sunKey = location ? this.getSunKey(forecast, location) : null
+    const sunDays = sunKey && this.state.sun?.key === sunKey.key ? this.state.sun.days : null
+    const nightShading = config.showNightShading && sunDays
+      ? getNightIntervals(sunDays, start, end).map(([from, to]) =>
+        `<rect x="${xAt(from).toFixed(2)}" y="${margin.top}" width="${(xAt(to) - xAt(from)).toFixed(2)}" height="${height - margin.top - margin.bottom}" fill="${config.nightShadingColor}" fill-opacity="${config.nightShadingOpacity}" />`
+      ).join('')
+      : ''
+    // Warning periods: a light wash over the plot and a solid strip along the time axis
+    const warningWindows = this.getAlerts(location).map(alert => {
+      const from = Math.max(Date.parse(alert.start), start)
+      const to = Math.min(Date.parse(alert.end), end)
+      if (!(to > from)) return ''
+      const x = xAt(from).toFixed(2)
+      const w = (xAt(to) - xAt(from)).toFixed(2)
+      const color = ALERT_COLORS[alert.level]
+      return `<rect x="${x}" y="${margin.top}" width="${w}" height="${height - margin.top - margin.bottom}" fill="${color}" fill-opacity="0.12" />` +
+        `<rect x="${x}" y="${height - margin.bottom - 6}" width="${w}" height="6" fill="${color}"><title>${escapeXml(`${this.translate(ALERT_LEVEL_MESSAGES[alert.level])}: ${alert.eventName || alert.awarenessType}`)}</title></rect>`
+    }).join('')
+    const clockFormatter = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone })
+    const sunMarkers = config.showSunTimes && sunDays
+      ? sunDays.flatMap(day => [
+        { time: day.sunrise, label: this.translate('sunrise'), arrow: '↑' },
+        { time: day.sunset, label: this.translate('sunset'), arrow: '↓' }
+      ]).filter(event => event.time && Date.parse(event.time) >= start && Date.parse(event.time) <= end).map(event => {
+        const date = new Date(event.time)
+        const x = xAt(date.getTime()).toFixed(2)
+        return `<text x="${x}" y="${height - margin.bottom + 56}" text-anchor="middle" font-size="10" fill="${config.secondaryTextColor}"><title>${escapeXml(event.label)}</title>${event.arrow}${clockFormatter.format(date)}</text>`
+      }).join('')
+      : ''
+
+    // Threshold rules: matching spans are washed in the rule colour, with a badge where each starts
+    const ruleHighlights = evaluateRules(pts, getRules(config.thresholdRules)).map((match, row) => {
+      const { rule } = match
+      return match.spans.map(span => {
+        const x = xAt(span.start)
+        const w = xAt(Math.min(span.end, end)) - x
+        const badgeText = this.translate('limitBadge', { label: rule.label || this.translate('limitExceeded'), time: clockFormatter.format(new Date(span.start)) })
+        const badgeWidth = badgeText.length * 6 + 12
+        const badgeX = Math.min(x + 2, width - margin.right - badgeWidth)
+        const badgeY = margin.top + 4 + row * 20
+        return `<g class="threshold-span"><title>${escapeXml(describeRule(rule, this.translate))}</title>` +
+          `<rect x="${x.toFixed(2)}" y="${margin.top}" width="${Math.max(w, 2).toFixed(2)}" height="${height - margin.top - margin.bottom}" fill="${rule.color}" fill-opacity="0.15" stroke="${rule.color}" stroke-opacity="0.6" />` +
+          `<rect x="${badgeX.toFixed(2)}" y="${badgeY}" width="${badgeWidth}" height="16" rx="8" fill="${rule.color}" />` +
+          `<text class="threshold-badge" x="${(badgeX + 6).toFixed(2)}" y="${badgeY + 12}" font-size="11" fill="#fff">${escapeXml(badgeText)}</text></g>`
+      }).join('')
+    }).join('')
+
+    const daySeparators = xLabels
+      .filter(label => label.day)
+      .map(label => `<line x1="${label.x.toFixed(2)}" y1="${margin.top}" x2="${label.x.toFixed(2)}" y2="${height - margin.bottom}" stroke="${config.gridLineColor}" stroke-width="${config.gridLineWidth}" stroke-opacity="${config.gridLineOpacity}" />`)
+      .join('')
 
     const tempTicks = []
-    const step = tempRange <= 10 ? 1 : tempRange <= 20 ? 2 : 5
+    const step = niceStep(tempRange, 10)
     for (let val = Math.ceil(tempMin / step) * step; val <= tempMax; val += step) {
       tempTicks.push(val)
     }
@@ -370,17 +1104,31 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
 
     const tempTickLabels = tempTicks.map(val => {
       const y = tempY(val).toFixed(2)
-      return `<text x="${margin.left - 10}" y="${y}" text-anchor="end" dominant-baseline="middle" font-size="12" fill="${config.secondaryTextColor}">${val.toFixed(0)}°</text>`
+      return `<text x="${margin.left - 10}" y="${y}" text-anchor="end" dominant-baseline="middle" font-size="12" fill="${config.secondaryTextColor}">${val.toFixed(stepDecimals(step))}°</text>`
     }).join('')
 
-    const precipBars = pts.map((p, i) => {
-      const value = p.precipitation ?? 0
-      if (value <= 0) return ''
-      const barHeight = Math.max(2, precipHeight(value))
-      const x = xPos(i) - Math.max(2, xStep * 0.35)
-      const barWidth = Math.max(4, xStep * 0.7)
+    // Each bar covers the period its amount was forecast for (1 h or 6 h).
+    // As on yr.no, the possible maximum is hatched on top of the expected amount.
+    const precipBars = !precipPanel ? '' : pts.map((p, i) => {
+      const value = precipValues[i]
+      const maxValue = precipHigh[i] ?? 0
+      if (value <= 0 && maxValue <= 0) return ''
+      const time = new Date(p.time).getTime()
+      const periodEnd = Math.min(end, time + p.periodHours * HOUR_MS)
+      if (periodEnd <= time) return ''
+      const gap = Math.min(2, pxPerHour * 0.15)
+      const x = xPos(i) + gap
+      const barWidth = Math.max(2, xAt(periodEnd) - xPos(i) - gap * 2)
+      const barHeight = value > 0 ? Math.max(2, precipHeight(value)) : 0
       const y = precipBase - barHeight
-      return `<rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${barWidth.toFixed(2)}" height="${barHeight.toFixed(2)}" fill="${config.precipitationBarColor}" />`
+      const maxHeight = maxValue > value ? precipHeight(maxValue) - barHeight : 0
+      const maxBar = maxHeight > 0
+        ? `<rect x="${x.toFixed(2)}" y="${(y - maxHeight).toFixed(2)}" width="${barWidth.toFixed(2)}" height="${maxHeight.toFixed(2)}" fill="url(#max-precipitation-pattern)" />`
+        : ''
+      const bar = barHeight > 0
+        ? `<rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${barWidth.toFixed(2)}" height="${barHeight.toFixed(2)}" fill="${config.precipitationBarColor}" />`
+        : ''
+      return maxBar + bar
     }).join('')
 
     const xLabelElements = xLabels.map(label => {
@@ -394,53 +1142,240 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
       `
     }).join('')
 
+    // Symbols are centred on their period and thinned so neighbouring icons never overlap
+    let lastSymbolX = -Infinity
+    const symbolElements = !hasSymbols ? '' : pts.map(p => {
+      if (!p.symbolCode) return ''
+      const x = Math.min(width - margin.right, xAt(new Date(p.time).getTime() + p.periodHours * HOUR_MS / 2))
+      if (x - lastSymbolX < symbolSize + 4) return ''
+      lastSymbolX = x
+      return renderWeatherSymbol(p.symbolCode, x, tempTop + symbolBand / 2, symbolSize, this.translate)
+    }).join('')
+
+    const windDirectionColor = config.windDirectionColor || config.secondaryTextColor
+    // One marker per x-axis label, taken from the forecast step closest to it
+    const windMarkers = !showWindDirection
+      ? ''
+      : xLabels.map(label => {
+        const i = this.findNearestIndex(xPositions, label.x)
+        const p = pts[i]
+        if (!p || p.windDirection === null || Math.abs(xPos(i) - label.x) > labelHours * pxPerHour / 2) return ''
+        const y = windYBase - windMarkerBand / 2
+        return windDirectionStyle === 'barbs'
+          ? renderWindBarb(xPos(i), y, p.windDirection, p.windSpeed, windDirectionColor)
+          : renderWindArrow(xPos(i), y, p.windDirection, windDirectionColor)
+      }).join('')
+
     const windTicks = []
-    const windStep = windMax <= 10 ? 2 : windMax <= 20 ? 5 : 10
+    const isBeaufort = windUnit === 'beaufort'
+    const windStep = niceStep(windMax, 5, isBeaufort)
     for (let val = 0; val <= windMax; val += windStep) {
       const y = windY(val).toFixed(2)
       windTicks.push(`<line x1="${margin.left}" y1="${y}" x2="${width - margin.right}" y2="${y}" stroke="${config.gridLineColor}" stroke-width="0.5" stroke-opacity="${config.gridLineOpacity * 0.5}" />`)
-      windTicks.push(`<text x="${width - margin.right + 8}" y="${y}" font-size="11" fill="${config.secondaryTextColor}" dominant-baseline="middle">${val.toFixed(0)} m/s</text>`)
+      windTicks.push(`<text x="${width - margin.right + 8}" y="${y}" font-size="11" fill="${config.secondaryTextColor}" dominant-baseline="middle">${isBeaufort ? val.toFixed(0) : `${val.toFixed(stepDecimals(windStep))} ${windSymbol(windUnit)}`}</text>`)
+    }
+
+    const temperatureGroup = !tempPanel ? '' : `<g>
+    ${gridLines}
+    ${tempTickLabels}
+    ${tempBandPath ? `<path class="temperature-band" d="${tempBandPath}" fill="${config.temperatureLineColor}" fill-opacity="0.18" stroke="none" />` : ''}
+    <path d="${tempPath}" fill="none" stroke="${config.temperatureLineColor}" stroke-width="2.5" />
+  </g>`
+
+    const windGroup = !windPanel ? '' : `<g>
+    ${windBandPath ? `<path class="wind-band" d="${windBandPath}" fill="${config.windLineColor}" fill-opacity="0.18" stroke="none" />` : ''}
+    <path d="${windPath}" fill="none" stroke="${config.windLineColor}" stroke-width="2" />
+    <path d="${gustPath}" fill="none" stroke="${config.windGustLineColor}" stroke-width="2" stroke-dasharray="6 4" />
+    ${windTicks.join('')}
+  </g>`
+
+    const seriesPanels = layout.map(panel => {
+      const common = {
+        xs: xPositions,
+        top: panel.top,
+        height: panel.height,
+        left: margin.left,
+        right: width - margin.right,
+        gridColor: config.gridLineColor,
+        gridOpacity: config.gridLineOpacity,
+        textColor: config.secondaryTextColor
+      }
+      switch (panel.id) {
+        case 'cloudCover':
+          return renderSeriesPanel({
+            ...common,
+            className: 'cloud-cover-panel',
+            values: pts.map(p => p.cloudAreaFraction ?? null),
+            min: 0,
+            max: 100,
+            fixedRange: true,
+            color: config.cloudCoverColor,
+            fill: true,
+            formatTick: value => `${value.toFixed(0)} %`
+          })
+        case 'humidity':
+          return renderSeriesPanel({
+            ...common,
+            className: 'humidity-panel',
+            values: pts.map(p => p.relativeHumidity ?? null),
+            min: 0,
+            max: 100,
+            fixedRange: true,
+            color: config.humidityColor,
+            fill: false,
+            formatTick: value => `${value.toFixed(0)} %`
+          })
+        case 'pressure':
+          return renderSeriesPanel({
+            ...common,
+            className: 'pressure-panel',
+            values: pts.map(p => p.airPressure ?? null),
+            min: Infinity,
+            max: -Infinity,
+            color: config.pressureColor,
+            fill: false,
+            formatTick: (value, decimals) => `${value.toFixed(decimals)} hPa`
+          })
+        case 'dewPoint':
+          return renderSeriesPanel({
+            ...common,
+            className: 'dew-point-panel',
+            values: pts.map(p => typeof p.dewPoint === 'number' ? toTemp(p.dewPoint) : null),
+            min: Infinity,
+            max: -Infinity,
+            color: config.dewPointColor,
+            fill: false,
+            formatTick: (value, decimals) => `${value.toFixed(decimals)}°`
+          })
+        case 'uvIndex':
+          return renderSeriesPanel({
+            ...common,
+            className: 'uv-index-panel',
+            values: pts.map(p => p.uvIndex ?? null),
+            min: 0,
+            max: 3,
+            color: config.uvIndexColor,
+            fill: true,
+            formatTick: (value, decimals) => value.toFixed(decimals)
+          })
+        default:
+          return ''
+      }
+    }).join('')
+
+    const panelTitles: { [id in PanelId]: string } = {
+      temperature: this.translate('axisTemperature', { unit: temperatureSymbol(temperatureUnit) }),
+      precipitation: this.translate('axisPrecipitation', { unit: precipitationSymbol(precipitationUnit) }),
+      wind: isBeaufort ? this.translate('axisWindForce') : this.translate('axisWindSpeed', { unit: windSymbol(windUnit) }),
+      cloudCover: this.translate('axisCloudCover'),
+      humidity: this.translate('axisHumidity'),
+      pressure: this.translate('axisPressure'),
+      dewPoint: this.translate('axisDewPoint', { unit: temperatureSymbol(temperatureUnit) }),
+      uvIndex: this.translate('axisUvIndex')
     }
+    // The first title sits above the plot; the others just above their panel
+    const panelTitleElements = layout.map((panel, i) =>
+      `<text x="${margin.left}" y="${(i === 0 ? margin.top - 20 : panel.top - 8).toFixed(2)}" fill="${config.mainTextColor}">${escapeXml(panelTitles[panel.id])}</text>`
+    ).join('')
+
+    const summary = summarizeForecast(forecast, config, this.translate)
+    const description = forecast.source ? `${summary}. ${this.translate('dataFromSentence', { source: forecast.source })}` : summary
+    const updatedLine = forecast.source
+      ? `${this.translate('updatedAt', { time: updatedText })} · ${this.translate('dataFrom', { source: forecast.source })}`
+      : this.translate('updatedAt', { time: updatedText })
 
     return `<?xml version="1.0" encoding="UTF-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" role="img" aria-labelledby="meteogramTitle meteogramDesc">
-  <title id="meteogramTitle">YR meteogram</title>
-  <desc id="meteogramDesc">Temperature, precipitation and wind forecast derived from api.met.no</desc>
+  <title id="meteogramTitle">${escapeXml(this.getForecastTitle(location))}</title>
+  <desc id="meteogramDesc">${escapeXml(description)}</desc>
+  <defs>
+    <pattern id="max-precipitation-pattern" width="4" height="4" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+      <rect width="4" height="4" fill="${config.maxPrecipitationColor}" opacity="0.3" />
+      <line x1="0" y1="0" x2="0" y2="4" stroke="${config.maxPrecipitationColor}" stroke-width="1.5" />
+    </pattern>
+  </defs>
   <rect x="0" y="0" width="${width}" height="${height}" fill="${config.overallBackground}" />
+  <g class="night-shading">
+    ${nightShading}
+  </g>
+  <g class="warning-windows">
+    ${warningWindows}
+  </g>
   <g font-family="sans-serif">
-    <text x="${margin.left}" y="32" font-size="20" fill="${config.mainTextColor}">Weather forecast</text>
-    <text x="${margin.left}" y="52" font-size="12" fill="${config.secondaryTextColor}">Updated ${updatedText}</text>
+    <text x="${margin.left}" y="32" font-size="20" fill="${config.mainTextColor}">${escapeXml(location?.name || this.translate('weatherForecast'))}</text>
+    <text x="${margin.left}" y="52" font-size="12" fill="${config.secondaryTextColor}">${escapeXml(updatedLine)}</text>
   </g>
-  <g>
-    ${gridLines}
-    ${tempTickLabels}
-    <path d="${tempPath}" fill="none" stroke="${config.temperatureLineColor}" stroke-width="2.5" />
+  <g class="day-separators">
+    ${daySeparators}
+  </g>
+  ${temperatureGroup}
+  <g class="weather-symbols">
+    ${symbolElements}
   </g>
   <g>
     ${precipBars}
   </g>
-  <g>
-    <path d="${windPath}" fill="none" stroke="${config.windLineColor}" stroke-width="2" />
-    <path d="${gustPath}" fill="none" stroke="${config.windGustLineColor}" stroke-width="2" stroke-dasharray="6 4" />
-    ${windTicks.join('')}
+  ${windGroup}
+  <g class="wind-direction">
+    ${windMarkers}
+  </g>
+  ${seriesPanels}
+  <g class="sun-times">
+    ${sunMarkers}
+  </g>
+  <g class="threshold-rules">
+    ${ruleHighlights}
   </g>
   <g>
     ${xLabelElements}
     <line x1="${margin.left}" y1="${height - margin.bottom}" x2="${width - margin.right}" y2="${height - margin.bottom}" stroke="${config.gridLineColor}" stroke-width="1" stroke-opacity="${config.gridLineOpacity}" />
   </g>
   <g font-size="12">
-    <text x="${margin.left}" y="${margin.top - 20}" fill="${config.mainTextColor}">Temperature (°C)</text>
-    <text x="${margin.left}" y="${precipBase - precipSection - 8}" fill="${config.mainTextColor}">Precipitation (mm)</text>
-    <text x="${margin.left}" y="${windYBase - windSection - 8}" fill="${config.mainTextColor}">Wind speed (m/s)</text>
+    ${panelTitleElements}
   </g>
 </svg>`
   }
 
-  processSvg = (svgCode: string): void => {
+  /**
+   * Zone used for every label: an explicitly configured IANA zone, otherwise
+   * the zone of the forecast location. Undefined falls back to the browser's.
+   */
+  getTimeZone = (location: Coordinates | null): string | undefined => {
+    const { timeZoneMode, timeZone } = this.props.config
+    if (timeZoneMode === 'custom' && isValidTimeZone(timeZone)) return timeZone
+    if (location) return resolveTimeZone(location.lat, location.lon)
+    return undefined
+  }
+
+  findNearestIndex = (positions: number[], x: number): number => {
+    let index = 0
+    positions.forEach((px, i) => {
+      if (Math.abs(px - x) < Math.abs(positions[index] - x)) index = i
+    })
+    return index
+  }
+
+  // The setting panel lists these so authors can write colour rules for a new SVG source
+  publishSvgColors = (colors: string[]): void => {
+    const key = colors.join(',')
+    if (key === this.svgColors) return
+    this.svgColors = key
+    getAppStore().dispatch(appActions.widgetStatePropChange(this.props.id, 'svgColors', colors))
+  }
+
+  processSvg = (svgCode: string, external = false): void => {
     const { config } = this.props
     const doc = new DOMParser().parseFromString(svgCode, 'image/svg+xml')
     const svg = doc.querySelector('svg')
-    if (!svg) { this.setState({ error: 'Invalid SVG content', isLoading: false }); return }
+    if (!svg) { this.setState({ error: this.translate('invalidSvg'), isLoading: false }); return }
+
+    // Source URLs and pasted code are not trusted; anything that could run script rejects the image
+    const rejected = sanitizeSvg(svg)
+    if (rejected.length) {
+      this.setState({ error: this.translate('svgRejected', { details: rejected.join(', ') }), isLoading: false })
+      return
+    }
+    this.publishSvgColors(detectColors(svg))
 
     if (!svg.hasAttribute('viewBox')) {
       const w = svg.getAttribute('width')?.replace('px', '')
@@ -455,9 +1390,11 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
       svg.setAttribute('preserveAspectRatio', 'xMidYMid meet')
     }
 
-    svg.querySelectorAll('style').forEach(s => s.remove())
-    svg.querySelectorAll('filter').forEach(f => f.remove())
-    svg.querySelectorAll('[filter]').forEach(n => n.removeAttribute('filter'))
+    // Fetched charts may come without any text alternative
+    if (!svg.querySelector('title') && !svg.getAttribute('aria-label')) {
+      svg.setAttribute('role', 'img')
+      svg.setAttribute('aria-label', this.translate('weatherForecastChart'))
+    }
 
     const isWhite = (v?: string | null) => {
       const t = (v || '').trim().toLowerCase()
@@ -479,8 +1416,335 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
       svgHtml: svg.outerHTML,
       isLoading: false,
       error: null,
-      rawSvg: svgCode
+      rawSvg: svgCode,
+      externalSvg: external
+    })
+  }
+
+  /**
+   * Moves the crosshair to a forecast point. Positions are taken from the
+   * rendered SVG's screen matrix so they stay right however the chart is scaled.
+   */
+  updateHover = (wrapper: HTMLElement, index: number): void => {
+    const forecast = this.getDisplayedForecast()
+    const ctm = wrapper.querySelector('svg')?.getScreenCTM()
+    if (!forecast || !ctm || index < 0 || index >= forecast.points.length) return
+    const frame = this.getChartFrame(forecast)
+    const rect = wrapper.getBoundingClientRect()
+    const top = new DOMPoint(frame.xPositions[index], frame.margin.top).matrixTransform(ctm)
+    const bottom = new DOMPoint(frame.xPositions[index], frame.height - frame.margin.bottom).matrixTransform(ctm)
+    this.setState({
+      hover: {
+        index,
+        x: top.x - rect.left,
+        top: top.y - rect.top,
+        bottom: bottom.y - rect.top,
+        wrapperWidth: rect.width
+      }
+    })
+  }
+
+  clearHover = (): void => {
+    if (this.state.hover) this.setState({ hover: null })
+  }
+
+  onChartPointerMove = (evt: React.PointerEvent<HTMLDivElement>): void => {
+    const { hover } = this.state
+    const forecast = this.getDisplayedForecast()
+    const ctm = evt.currentTarget.querySelector('svg')?.getScreenCTM()
+    if (!forecast || !ctm) return
+    const { x } = new DOMPoint(evt.clientX, evt.clientY).matrixTransform(ctm.inverse())
+    const frame = this.getChartFrame(forecast)
+    const slack = 12
+    if (x < frame.margin.left - slack || x > frame.width - frame.margin.right + slack) {
+      this.clearHover()
+      return
+    }
+    const index = this.findNearestIndex(frame.xPositions, x)
+    if (hover?.index !== index) this.updateHover(evt.currentTarget, index)
+  }
+
+  onChartKeyDown = (evt: React.KeyboardEvent<HTMLDivElement>): void => {
+    const { hover } = this.state
+    const forecast = this.getDisplayedForecast()
+    if (!forecast) return
+    const last = forecast.points.length - 1
+    const current = hover?.index ?? 0
+    const next = {
+      ArrowRight: Math.min(last, current + 1),
+      ArrowLeft: Math.max(0, current - 1),
+      Home: 0,
+      End: last
+    }[evt.key]
+    if (evt.key === 'Escape' && hover) {
+      evt.stopPropagation()
+      this.clearHover()
+      return
+    }
+    if (next === undefined) return
+    evt.preventDefault()
+    this.updateHover(evt.currentTarget, next)
+  }
+
+  onChartFocus = (evt: React.FocusEvent<HTMLDivElement>): void => {
+    if (!this.state.hover) this.updateHover(evt.currentTarget, 0)
+  }
+
+  renderHoverOverlay = (): React.ReactElement => {
+    const { hover } = this.state
+    const forecast = this.getDisplayedForecast()
+    if (!hover || !forecast) return null
+    const point = forecast.points[hover.index]
+    if (!point) return null
+
+    const timeText = new Intl.DateTimeFormat(this.getLocale(), {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: this.getTimeZone(this.state.forecastLocation)
+    }).format(new Date(point.time))
+
+    const { translate } = this
+    const { temperatureUnit, windUnit, precipitationUnit } = this.props.config
+    const formatTemperature = (celsius: number) => `${convertTemperature(celsius, temperatureUnit).toFixed(1)} ${temperatureSymbol(temperatureUnit)}`
+    const formatWind = (ms: number) => `${convertWind(ms, windUnit).toFixed(windDecimals(windUnit))} ${windSymbol(windUnit)}`
+    const formatPrecipitation = (mm: number) => `${convertPrecipitation(mm, precipitationUnit).toFixed(precipitationDecimals(precipitationUnit))} ${precipitationSymbol(precipitationUnit)}`
+
+    // Ranges are shown as 10th–90th percentile, or min–max for precipitation
+    const hasRange = (low?: number | null, high?: number | null) =>
+      !!this.props.config.showUncertainty && typeof low === 'number' && typeof high === 'number'
+
+    // Values of the optional panels are listed only when their panel is shown
+    const panels = getPanels(this.props.config.panels)
+    const shows = (panel: PanelId, value?: number | null) => panels.includes(panel) && typeof value === 'number'
+
+    // Keep the tooltip on the side of the crosshair with the most room
+    const placeLeft = hover.x > hover.wrapperWidth / 2
+    const tooltipStyle: React.CSSProperties = placeLeft
+      ? { top: hover.top, right: hover.wrapperWidth - hover.x + 10 }
+      : { top: hover.top, left: hover.x + 10 }
+
+    return (
+      <React.Fragment>
+        <div className="chart-crosshair" style={{ left: hover.x, top: hover.top, height: Math.max(0, hover.bottom - hover.top) }} />
+        <div className="chart-tooltip" style={tooltipStyle} aria-live="polite">
+          <div className="chart-tooltip-time">{timeText}</div>
+          <div>{translate('temperature')}: {formatTemperature(point.temperature)}{hasRange(point.temperatureP10, point.temperatureP90) && ` (${formatTemperature(point.temperatureP10)} – ${formatTemperature(point.temperatureP90)})`}</div>
+          <div>{translate('wind')}: {formatWind(point.windSpeed)}{hasRange(point.windSpeedP10, point.windSpeedP90) && ` (${formatWind(point.windSpeedP10)} – ${formatWind(point.windSpeedP90)})`}</div>
+          {point.windGust !== null && <div>{translate('gust')}: {formatWind(point.windGust)}</div>}
+          <div>{translate('precipitation')}: {formatPrecipitation(point.precipitation ?? 0)}{hasRange(point.precipitationMin, point.precipitationMax) && ` (${formatPrecipitation(point.precipitationMin)} – ${formatPrecipitation(point.precipitationMax)})`}{point.periodHours > 1 && ` ${translate('perHours', { hours: point.periodHours })}`}</div>
+          {shows('cloudCover', point.cloudAreaFraction) && <div>{translate('cloudCover')}: {point.cloudAreaFraction.toFixed(0)} %</div>}
+          {shows('humidity', point.relativeHumidity) && <div>{translate('humidity')}: {point.relativeHumidity.toFixed(0)} %</div>}
+          {shows('pressure', point.airPressure) && <div>{translate('pressure')}: {point.airPressure.toFixed(1)} hPa</div>}
+          {shows('dewPoint', point.dewPoint) && <div>{translate('dewPoint')}: {formatTemperature(point.dewPoint)}</div>}
+          {shows('uvIndex', point.uvIndex) && <div>{translate('uvIndex')}: {point.uvIndex.toFixed(1)}</div>}
+        </div>
+      </React.Fragment>
+    )
+  }
+
+  formatAlertPeriod = (alert: WeatherAlert): string => {
+    const formatter = new Intl.DateTimeFormat(this.getLocale(), {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZone: this.getTimeZone(this.getActiveLocation())
     })
+    return `${formatter.format(new Date(alert.start))} – ${formatter.format(new Date(alert.end))}`
+  }
+
+  renderAlertBanner = (): React.ReactElement => {
+    const alerts = this.getAlerts(this.getActiveLocation())
+    if (!alerts.length) return null
+    // The list is sorted most severe first
+    const alert = alerts[0]
+    return (
+      <button
+        className={`alert-banner alert-${alert.level}`}
+        onClick={this.openAlertDetails}
+        title={this.translate('showWarningDetails')}
+        aria-haspopup="dialog"
+      >
+        <span aria-hidden="true">⚠ </span>
+        <strong>{this.translate(ALERT_LEVEL_MESSAGES[alert.level])}</strong>
+        {` · ${alert.eventName || alert.awarenessType} · ${this.formatAlertPeriod(alert)}`}
+        {alerts.length > 1 && ` ${this.translate('moreWarnings', { count: alerts.length - 1 })}`}
+      </button>
+    )
+  }
+
+  renderAlertDetails = (): React.ReactElement => {
+    const alerts = this.getAlerts(this.getActiveLocation())
+    return (
+      <div className="alert-details" role="region" aria-label={this.translate('weatherWarnings')}>
+        {alerts.map(alert => (
+          <section key={alert.id} className="alert-detail" style={{ borderLeftColor: ALERT_COLORS[alert.level] }}>
+            <h3>{this.translate(ALERT_LEVEL_MESSAGES[alert.level])}{alert.awarenessType && ` · ${alert.awarenessType}`}</h3>
+            <div className="alert-detail-meta">
+              {this.formatAlertPeriod(alert)}{alert.area && ` · ${alert.area}`}
+            </div>
+            {alert.title && <p><strong>{alert.title}</strong></p>}
+            {alert.description && <p>{alert.description}</p>}
+            {alert.consequences && <p>{alert.consequences}</p>}
+            {alert.instruction && <p>{alert.instruction}</p>}
+            {alert.web && <a href={alert.web} target="_blank" rel="noopener noreferrer">{this.translate('moreAboutWarning')}</a>}
+          </section>
+        ))}
+        {!alerts.length && <p>{this.translate('noActiveWarnings')}</p>}
+        <button className="alert-details-close" onClick={this.closeAlertDetails}>{this.translate('backToChart')}</button>
+      </div>
+    )
+  }
+
+  // The card needs forecast points, so charts from an SVG source always show in full
+  isCompactLayout = (): boolean => {
+    const { layoutMode, compactBreakpoint } = this.props.config
+    if (!this.state.forecast || this.state.chartMode !== 'meteogram' || layoutMode === 'chart') return false
+    if (layoutMode === 'card') return true
+    const { containerWidth } = this.state
+    return containerWidth !== null && containerWidth < (compactBreakpoint ?? 400)
+  }
+
+  getSummaryId = (): string => `yrw-${this.props.id}-summary`
+
+  renderTable = (): React.ReactElement => {
+    const forecast = this.getDisplayedForecast()
+    const location = this.state.forecastLocation
+    const { translate } = this
+    const locale = this.getLocale()
+    const { temperatureUnit, windUnit, precipitationUnit } = this.props.config
+    const timeFormatter = new Intl.DateTimeFormat(locale, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: this.getTimeZone(location)
+    })
+    const precipitationDigits = precipitationDecimals(precipitationUnit)
+    const windDigits = windDecimals(windUnit)
+
+    return (
+      <div className="forecast-table-wrapper" tabIndex={0} role="region" aria-labelledby={`yrw-${this.props.id}-table-caption`}>
+        <table className="forecast-table" aria-describedby={this.getSummaryId()}>
+          <caption id={`yrw-${this.props.id}-table-caption`}>
+            {translate('tableCaption', {
+              title: this.getForecastTitle(location),
+              time: new Date(forecast.updatedAt).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short', timeZone: this.getTimeZone(location) })
+            })}
+          </caption>
+          <thead>
+            <tr>
+              <th scope="col">{translate('time')}</th>
+              <th scope="col">{translate('weather')}</th>
+              <th scope="col">{translate('temperature')} ({temperatureSymbol(temperatureUnit)})</th>
+              <th scope="col">{translate('precipitation')} ({precipitationSymbol(precipitationUnit)})</th>
+              <th scope="col">{translate('wind')} ({windSymbol(windUnit)})</th>
+              <th scope="col">{translate('gust')} ({windSymbol(windUnit)})</th>
+              <th scope="col">{translate('windFrom')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.points.map(point => (
+              <tr key={point.time}>
+                <th scope="row">{timeFormatter.format(new Date(point.time))}</th>
+                <td>{point.symbolCode ? describeSymbolCode(point.symbolCode, translate) : ''}</td>
+                <td>{convertTemperature(point.temperature, temperatureUnit).toFixed(1)}</td>
+                <td>
+                  {point.precipitation !== null ? convertPrecipitation(point.precipitation, precipitationUnit).toFixed(precipitationDigits) : ''}
+                  {point.precipitation !== null && point.periodHours > 1 && ` ${translate('perHours', { hours: point.periodHours })}`}
+                </td>
+                <td>{convertWind(point.windSpeed, windUnit).toFixed(windDigits)}</td>
+                <td>{point.windGust !== null ? convertWind(point.windGust, windUnit).toFixed(windDigits) : ''}</td>
+                <td>{point.windDirection !== null ? `${Math.round(point.windDirection)}°` : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )
+  }
+
+  // Icon markup is built from forecast values, so it passes the same sanitizer as fetched charts
+  renderIcon = (className: string, markup: string): React.ReactElement => {
+    const html = sanitizeSvgMarkup(markup)
+    return html && <span className={className} aria-hidden="true" dangerouslySetInnerHTML={{ __html: html }} />
+  }
+
+  renderCompactCard = (): React.ReactElement => {
+    const forecast = this.getDisplayedForecast()
+    const conditions = getCurrentConditions(forecast)
+    if (!conditions) return null
+    const location = this.state.forecastLocation
+    const { translate } = this
+    const config = this.getPaintConfig()
+    const { temperatureUnit, windUnit, precipitationUnit } = config
+    const { point, symbolCode, precipitation, hours } = conditions
+
+    const windSpeed = convertWind(point.windSpeed, windUnit).toFixed(windDecimals(windUnit))
+    const windText = typeof point.windGust === 'number'
+      ? translate('compactWindWithGust', { speed: windSpeed, gust: convertWind(point.windGust, windUnit).toFixed(windDecimals(windUnit)), unit: windSymbol(windUnit) })
+      : translate('compactWind', { speed: windSpeed, unit: windSymbol(windUnit) })
+    const precipitationText = precipitation === null
+      ? '–'
+      : `${convertPrecipitation(precipitation, precipitationUnit).toFixed(precipitationDecimals(precipitationUnit))} ${precipitationSymbol(precipitationUnit)}`
+    const clockFormatter = new Intl.DateTimeFormat(this.getLocale(), { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone: this.getTimeZone(location) })
+
+    return (
+      <div className="compact-card" role="group" aria-label={translate('currentConditions')} aria-describedby={this.getSummaryId()}>
+        <div className="compact-card-title">{location?.name || translate('weatherForecast')}</div>
+        <div className="compact-card-main">
+          {symbolCode && this.renderIcon('compact-card-symbol',
+            `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48" width="48" height="48">${renderWeatherSymbol(symbolCode, 24, 24, 48, translate)}</svg>`)}
+          <span className="compact-card-temperature">{`${Math.round(convertTemperature(point.temperature, temperatureUnit))} ${temperatureSymbol(temperatureUnit)}`}</span>
+        </div>
+        {symbolCode && <div className="compact-card-weather">{describeSymbolCode(symbolCode, translate)}</div>}
+        <dl className="compact-card-details">
+          <dt>{translate('wind')}</dt>
+          <dd>
+            {typeof point.windDirection === 'number' && this.renderIcon('compact-card-wind',
+              `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-8 -8 16 16" width="14" height="14">${renderWindArrow(0, 0, point.windDirection, config.windDirectionColor || config.secondaryTextColor, 14)}</svg>`)}
+            {windText}
+          </dd>
+          <dt>{translate('precipitationNextHours', { hours })}</dt>
+          <dd>{precipitationText}</dd>
+        </dl>
+        <div className="compact-card-updated">{translate('updatedAt', { time: clockFormatter.format(new Date(forecast.updatedAt)) })}</div>
+      </div>
+    )
+  }
+
+  renderChart = (svgHtml: string): React.ReactElement => {
+    const svgContainer = (
+      <div
+        className={`svg-image-container${this.state.externalSvg ? ' external-svg' : ''}`}
+        ref={this.svgContainerRef}
+        style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden', borderRadius: 'inherit' }}
+        dangerouslySetInnerHTML={{ __html: svgHtml }}
+      />
+    )
+    // Only charts built from forecast data have values to show on hover
+    if (!this.state.forecast || this.state.chartMode !== 'meteogram') return svgContainer
+
+    return (
+      <div
+        className="chart-wrapper"
+        tabIndex={0}
+        aria-label={this.translate('chartInstructions')}
+        aria-describedby={this.getSummaryId()}
+        onPointerMove={this.onChartPointerMove}
+        onPointerLeave={this.clearHover}
+        onFocus={this.onChartFocus}
+        onBlur={this.clearHover}
+        onKeyDown={this.onChartKeyDown}
+      >
+        {svgContainer}
+        {this.renderHoverOverlay()}
+      </div>
+    )
   }
 
   buildScopedCss = (config: IMConfig, scope: string) => `
@@ -496,6 +1760,94 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
     .${scope} .refresh-button svg path { stroke: currentColor !important; fill: none !important; }
     .${scope} .refresh-button.large { width: clamp(36px,4vw,44px); height: clamp(36px,4vw,44px); }
     .${scope} .expand-button { background: ${config.expandButtonBackgroundColor}; color: ${config.expandButtonIconColor}; font-size: 16px; }
+    .${scope} .reset-location-button,
+    .${scope} .mode-button,
+    .${scope} .view-button,
+    .${scope} .export-button { background: ${config.refreshButtonBackgroundColor}; color: ${config.refreshButtonIconColor}; font-size: 16px; }
+
+    .${scope} .sr-only {
+      position: absolute; width: 1px; height: 1px; margin: -1px; padding: 0; border: 0;
+      overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap;
+    }
+    .${scope} .forecast-table-wrapper { width: 100%; height: 100%; overflow: auto; padding-top: clamp(40px,5vw,48px); }
+    .${scope} .forecast-table-wrapper:focus-visible { outline: 2px solid ${config.crosshairColor}; outline-offset: -2px; }
+    .${scope} .forecast-table { width: 100%; border-collapse: collapse; font-size: 12px; color: ${config.mainTextColor}; }
+    .${scope} .forecast-table caption { caption-side: top; text-align: left; padding: 0 6px 6px; color: ${config.secondaryTextColor}; }
+    .${scope} .forecast-table th,
+    .${scope} .forecast-table td { padding: 3px 6px; text-align: right; white-space: nowrap; border-bottom: 1px solid ${config.gridLineColor}; }
+    .${scope} .forecast-table th[scope="row"],
+    .${scope} .forecast-table td:nth-of-type(1) { text-align: left; font-weight: normal; }
+    .${scope} .forecast-table thead th { position: sticky; top: 0; background: ${config.overallBackground}; }
+
+    .${scope} .compact-card {
+      box-sizing: border-box; width: 100%; height: 100%; overflow: hidden;
+      display: flex; flex-direction: column; justify-content: center; gap: 4px;
+      padding: clamp(40px,5vw,48px) 8px 8px; font-size: 12px; color: ${config.mainTextColor};
+    }
+    .${scope} .compact-card-title { font-size: 14px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .${scope} .compact-card-main { display: flex; align-items: center; gap: 8px; }
+    .${scope} .compact-card-symbol,
+    .${scope} .compact-card-wind { display: flex; }
+    .${scope} .compact-card-temperature { font-size: 32px; line-height: 1; }
+    .${scope} .compact-card-weather,
+    .${scope} .compact-card-updated { color: ${config.secondaryTextColor}; }
+    .${scope} .compact-card-details { display: grid; grid-template-columns: auto 1fr; gap: 2px 8px; margin: 4px 0 0; }
+    .${scope} .compact-card-details dt { font-weight: normal; color: ${config.secondaryTextColor}; }
+    .${scope} .compact-card-details dd { margin: 0; display: flex; align-items: center; gap: 4px; }
+    .${scope} .compact-card-updated { font-size: 11px; }
+
+    .${scope} .export-menu-anchor { position: relative; }
+    .${scope} .export-menu {
+      position: absolute; top: calc(100% + 4px); right: 0; z-index: 11;
+      display: flex; flex-direction: column; min-width: 120px; padding: 4px 0;
+      background: ${config.tooltipBackgroundColor}; border: 1px solid ${config.tooltipBorderColor}; border-radius: ${config.tooltipBorderRadius}px;
+    }
+    .${scope} .export-menu button {
+      border: none; background: none; cursor: pointer; text-align: left; white-space: nowrap;
+      padding: 4px 10px; font-size: 12px; color: ${config.tooltipTextColor};
+    }
+    .${scope} .export-menu button:hover,
+    .${scope} .export-menu button:focus-visible { background: ${config.tooltipBorderColor}; }
+
+    .${scope} .chart-wrapper { position: relative; width: 100%; height: 100%; }
+    .${scope} .chart-wrapper:focus-visible { outline: 2px solid ${config.crosshairColor}; outline-offset: 2px; }
+    .${scope} .chart-crosshair { position: absolute; width: 1px; transform: translateX(-0.5px); background: ${config.crosshairColor}; pointer-events: none; }
+    .${scope} .chart-tooltip {
+      position: absolute; z-index: 5; pointer-events: none; white-space: nowrap;
+      padding: 6px 8px; font-size: 12px; line-height: 1.5;
+      background: ${config.tooltipBackgroundColor}; color: ${config.tooltipTextColor};
+      border: 1px solid ${config.tooltipBorderColor}; border-radius: ${config.tooltipBorderRadius}px;
+    }
+    .${scope} .chart-tooltip-time { font-weight: 600; }
+    .${scope} .stale-badge {
+      position: absolute; top: 8px; right: 8px; z-index: 6;
+      padding: 2px 6px; font-size: 11px;
+      background: ${config.tooltipBackgroundColor}; color: ${config.tooltipTextColor};
+      border: 1px solid ${config.tooltipBorderColor}; border-radius: ${config.tooltipBorderRadius}px;
+    }
+    .${scope} .chart-stack { display: flex; flex-direction: column; width: 100%; height: 100%; }
+    .${scope} .chart-stack > :last-child { flex: 1; min-height: 0; }
+    .${scope} .alert-banner {
+      flex: none; width: 100%; cursor: pointer; border: none; text-align: center;
+      /* Clear of the button bar, which floats over the top edge */
+      margin-top: clamp(40px,5vw,48px); padding: 4px 8px; font-size: 12px; line-height: 1.4;
+      border-radius: ${config.tooltipBorderRadius}px; color: #1b1b1b;
+    }
+    .${scope} .alert-yellow { background: ${ALERT_COLORS.yellow}; }
+    .${scope} .alert-orange { background: ${ALERT_COLORS.orange}; }
+    .${scope} .alert-red { background: ${ALERT_COLORS.red}; color: #fff; }
+    .${scope} .alert-details { width: 100%; height: 100%; overflow-y: auto; padding: 40px 8px 8px; font-size: 13px; color: ${config.mainTextColor}; }
+    .${scope} .alert-detail { border-left: 4px solid; padding: 0 0 0 10px; margin-bottom: 16px; }
+    .${scope} .alert-detail h3 { font-size: 15px; margin: 0 0 2px; color: inherit; }
+    .${scope} .alert-detail-meta { color: ${config.secondaryTextColor}; margin-bottom: 6px; }
+    .${scope} .alert-detail p { margin: 0 0 6px; white-space: pre-line; }
+    .${scope} .alert-details-close { cursor: pointer; padding: 4px 10px; font-size: 12px; }
+    .${scope} .notice-banner {
+      position: absolute; left: 8px; right: 8px; bottom: 8px; z-index: 6;
+      padding: 4px 8px; font-size: 12px; text-align: center;
+      background: ${config.tooltipBackgroundColor}; color: ${config.tooltipTextColor};
+      border: 1px solid ${config.tooltipBorderColor}; border-radius: ${config.tooltipBorderRadius}px;
+    }
 
     .${scope} .svg-image-container svg {
       width: 100%;
@@ -513,56 +1865,14 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
     .${scope} .svg-image-container svg text { fill: ${config.mainTextColor} !important; }
     .${scope} .svg-image-container svg .hour-label,
     .${scope} .svg-image-container svg .y-axis-label { fill: ${config.secondaryTextColor} !important; }
-
-    /* Axis/X icons colored */
-    .${scope} .svg-image-container svg g[filter*="invert"] { filter:none !important; }
-    .${scope} .svg-image-container svg [fill="#56616c"],
-    .${scope} .svg-image-container svg [stroke="#56616c"],
-    .${scope} .svg-image-container svg [style*="fill:#56616c"],
-    .${scope} .svg-image-container svg [style*="stroke:#56616c"],
-    .${scope} .svg-image-container svg [style*="rgb(86,97,108)"] {
-      fill: ${config.yAxisIconColor} !important;
-      stroke: ${config.yAxisIconColor} !important;
-    }
-    .${scope} .svg-image-container svg [stroke="currentColor"] { stroke: ${config.yAxisIconColor} !important; }
-    .${scope} .svg-image-container svg [fill="currentColor"]   { fill: ${config.yAxisIconColor} !important; }
-
-    /* Grid */
-    .${scope} .svg-image-container svg line[stroke="#c3d0d8"],
-    .${scope} .svg-image-container svg line[stroke="#56616c"] {
-      stroke: ${config.gridLineColor} !important;
-      stroke-width: ${config.gridLineWidth}px !important;
-      stroke-opacity: ${config.gridLineOpacity} !important;
-    }
-
-    /* Series lines */
-    .${scope} .svg-image-container svg path[stroke="url(#temperature-curve-gradient)"] { stroke: ${config.temperatureLineColor} !important; }
-    .${scope} .svg-image-container svg path[stroke="#aa00f2"]:not([stroke-dasharray]) { stroke: ${config.windLineColor} !important; }
-    .${scope} .svg-image-container svg path[stroke="#aa00f2"][stroke-dasharray] { stroke: ${config.windGustLineColor} !important; }
-
-    /* Legend chips (inline <svg> blocks) */
-    /* Temperature chip is red by default */
-    .${scope} .svg-image-container svg svg rect[fill="#c60000"] { fill: ${config.temperatureLineColor} !important; }
-
-    /* Wind m/s chip: solid purple rect WITHOUT rx */
-    .${scope} .svg-image-container svg svg rect[fill="#aa00f2"]:not([rx]) { fill: ${config.windLineColor} !important; }
-
-    /* Wind gust chip: purple rect WITH rx (rounded) */
-    .${scope} .svg-image-container svg svg rect[fill="#aa00f2"][rx] { fill: ${config.windGustLineColor} !important; }
-
-    /* Precipitation */
-    .${scope} .svg-image-container svg rect[fill="#006edb"] { fill: ${config.precipitationBarColor} !important; }
-    .${scope} .svg-image-container svg line[stroke="#006edb"],
-    .${scope} .svg-image-container svg path[stroke="#006edb"] { stroke: ${config.precipitationBarColor} !important; }
+    /* Limit badges sit on the rule colour and keep their white text */
+    .${scope} .svg-image-container svg .threshold-span .threshold-badge { fill: #fff !important; }
 
     .${scope} .svg-image-container svg #max-precipitation-pattern rect { fill: ${config.maxPrecipitationColor} !important; opacity: 0.3 !important; }
     .${scope} .svg-image-container svg #max-precipitation-pattern line { stroke: ${config.maxPrecipitationColor} !important; opacity: 1 !important; }
 
-    /* Logos */
-    .${scope} .svg-image-container svg svg[x="16"] circle { fill: ${config.yrLogoBackgroundColor} !important; }
-    .${scope} .svg-image-container svg svg[x="16"] path   { fill: ${config.yrLogoTextColor} !important; }
-    .${scope} .svg-image-container svg svg[x="624"] path,
-    .${scope} .svg-image-container svg svg[x="675.5"] path { fill: ${config.logoColor} !important; }
+    /* Colour rules, in order, so later rules win at equal specificity */
+    ${buildColorRuleCss(getColorRules(config.colorRules), config, `.${scope} .svg-image-container.external-svg svg`)}
   `
 
   getStyle = (config: IMConfig): SerializedStyles => css`
@@ -588,22 +1898,28 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
   `
 
   render(): React.ReactElement {
-    const { config, id } = this.props
-    const { isLoading, error, svgHtml, expanded, displayMode, externalUrl } = this.state
+    const { config, id, useMapWidgetIds, useDataSources, useDataSourcesEnabled } = this.props
+    const { isLoading, error, svgHtml, expanded, displayMode, externalUrl, selectedLocation, notice, staleSince, chartMode, alertDetailsOpen, exportMenuOpen, viewMode } = this.state
+    const { translate } = this
     const scopeClass = `yrw-${id}`
+    // Table view, summary and data exports need forecast points behind the chart
+    const hasData = !!this.state.forecast && chartMode === 'meteogram'
+    const summary = hasData ? summarizeForecast(this.getDisplayedForecast(), config, translate) : ''
+    // The popup always shows the full chart; only the widget itself switches to the card
+    const compact = this.isCompactLayout()
 
     const content = isLoading
       ? <Loading />
       : error
         ? <div style={{ padding: '10px', textAlign: 'center', color: 'red' }}>
             {error}
-            {config.sourceUrl && (
+            {this.hasLocationSource() && (
               <div style={{ marginTop: 10, display: 'flex', justifyContent: 'center' }}>
                 <button
                   className="action-button refresh-button large"
-                  onClick={() => this.fetchSvgFromUrl(config.sourceUrl)}
-                  title="Refresh graph"
-                  aria-label="Refresh graph"
+                  onClick={this.handleDataSourceChange}
+                  title={translate('refreshGraph')}
+                  aria-label={translate('refreshGraph')}
                 >
                   <svg viewBox="0 0 24 24" width="14" height="14" role="img" aria-hidden="true">
                     <path strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"
@@ -614,28 +1930,88 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
             )}
           </div>
         : svgHtml
-          ? <div
-            className="svg-image-container"
-            style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', overflow: 'hidden', borderRadius: 'inherit' }}
-            dangerouslySetInnerHTML={{ __html: svgHtml }}
-          />
+          ? viewMode === 'table' && hasData ? this.renderTable() : this.renderChart(svgHtml)
           : <div style={{ padding: 10, textAlign: 'center' }}>
-              Please configure a Source URL or provide Fallback SVG Code.
+              {translate('configurePrompt')}
             </div>
 
-    const showControls = this.props.config.sourceUrl && !expanded && !error
+    const showControls = this.hasLocationSource() && !expanded && !error
+    const alertBanner = !isLoading && !error && svgHtml ? this.renderAlertBanner() : null
+    const withBanner = (inner: React.ReactNode) => alertBanner ? <div className="chart-stack">{alertBanner}{inner}</div> : inner
+    const body = withBanner(content)
+    const inlineBody = compact && svgHtml && !isLoading && !error ? withBanner(this.renderCompactCard()) : body
+    // Data exports describe the meteogram, so they are left out for other charts
+    const exportFormats = getExportFormats(config.exportFormats).filter(format => hasData || format === 'svg' || format === 'png')
+    // Image exports copy the rendered chart, which the card does not have
+    const inlineExportFormats = compact && !expanded ? exportFormats.filter(format => format === 'csv' || format === 'json') : exportFormats
+    const exportLabels: { [format in ExportFormat]: string } = {
+      svg: translate('exportSvg'),
+      png: translate('exportPng', { scale: getPngScale(config.pngScale) }),
+      csv: translate('exportCsv'),
+      json: translate('exportJson')
+    }
+    const exportControl = svgHtml && inlineExportFormats.length > 0 && (
+      <div className="export-menu-anchor" onKeyDown={this.onExportMenuKeyDown}>
+        <button
+          className="action-button export-button"
+          onClick={this.toggleExportMenu}
+          title={translate('export')}
+          aria-label={translate('export')}
+          aria-haspopup="menu"
+          aria-expanded={exportMenuOpen}
+        >⤓</button>
+        {exportMenuOpen && (
+          <div className="export-menu" role="menu">
+            {inlineExportFormats.map(format => (
+              <button key={format} role="menuitem" onClick={() => { this.exportChart(format) }}>{exportLabels[format]}</button>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+    const viewButton = hasData && svgHtml && !(compact && !expanded) && (
+      <button
+        className="action-button view-button"
+        onClick={this.toggleViewMode}
+        title={translate(viewMode === 'table' ? 'showChart' : 'showTable')}
+        aria-label={translate(viewMode === 'table' ? 'showChart' : 'showTable')}
+        aria-pressed={viewMode === 'table'}
+      >{viewMode === 'table' ? '∿' : '▦'}</button>
+    )
+    const isNowcast = chartMode === 'nowcast'
+    const modeButton = (isNowcast || this.canShowNowcast()) && (
+      <button
+        className="action-button mode-button"
+        onClick={this.toggleChartMode}
+        title={translate(isNowcast ? 'showForecast' : 'showNowcast')}
+        aria-label={translate(isNowcast ? 'showForecast' : 'showNowcast')}
+        aria-pressed={isNowcast}
+      >{isNowcast ? '☀' : '☂'}</button>
+    )
 
     return (
-      <div className={scopeClass} css={this.getStyle(config)}>
+      <div ref={this.rootRef} className={scopeClass} css={this.getStyle(config)}>
         <style dangerouslySetInnerHTML={{ __html: this.buildScopedCss(config, scopeClass) }} />
 
+        {useMapWidgetIds?.length > 0 && (
+          <JimuMapViewComponent useMapWidgetId={useMapWidgetIds[0]} onActiveViewChange={this.onActiveViewChange} />
+        )}
+        {useDataSourcesEnabled && useDataSources?.length > 0 && (
+          <DataSourceComponent
+            useDataSource={useDataSources[0]}
+            widgetId={id}
+            onDataSourceCreated={this.onDataSourceCreated}
+            onSelectionChange={this.onSelectionChange}
+          />
+        )}
+
         {showControls && (
           <div className="button-container">
             <button
               className="action-button refresh-button"
-              onClick={() => this.fetchSvgFromUrl(config.sourceUrl)}
-              title="Refresh graph"
-              aria-label="Refresh graph"
+              onClick={this.handleDataSourceChange}
+              title={translate('refreshGraph')}
+              aria-label={translate('refreshGraph')}
             >
               <svg viewBox="0 0 24 24" width="14" height="14" role="img" aria-hidden="true">
                 <path strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"
@@ -643,15 +2019,37 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
               </svg>
             </button>
             <button
+              ref={this.expandButtonRef}
               className="action-button expand-button"
               onClick={this.toggleExpand}
-              title="Expand graph"
-              aria-label="Expand graph"
+              title={translate('expandGraph')}
+              aria-label={translate('expandGraph')}
+              aria-haspopup="dialog"
             >⛶</button>
+            {selectedLocation && (
+              <button
+                className="action-button reset-location-button"
+                onClick={this.clearSelectedLocation}
+                title={translate('backToConfiguredLocation')}
+                aria-label={translate('backToConfiguredLocation')}
+              >⌂</button>
+            )}
+            {modeButton}
+            {viewButton}
+            {exportControl}
           </div>
         )}
 
-        {!expanded && content}
+        {summary && <p id={this.getSummaryId()} className="sr-only">{summary}</p>}
+        {!expanded && inlineBody}
+        {!expanded && staleSince !== null && chartMode === 'meteogram' && svgHtml && !isLoading && !error && (
+          <div className="stale-badge" role="status">
+            {translate('staleSince', { time: new Date(staleSince).toLocaleString(this.getLocale(), { dateStyle: 'short', timeStyle: 'short', timeZone: this.getTimeZone(this.state.forecastLocation) }) })}
+          </div>
+        )}
+        {!expanded && notice && !isLoading && (
+          <div className="notice-banner" role="status">{notice}</div>
+        )}
 
         {expanded && ReactDOM.createPortal(
           <div className={`${scopeClass} popup`}>
@@ -670,6 +2068,11 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
               />
             )}
             <div
+              ref={this.popupRef}
+              role="dialog"
+              aria-modal="true"
+              aria-label={translate(alertDetailsOpen ? 'weatherWarnings' : 'expandedForecast')}
+              onKeyDown={this.onPopupKeyDown}
               style={{
                 position: 'fixed',
                 top: '50%',
@@ -691,9 +2094,9 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
               <div className="button-container">
                 <button
                   className="action-button refresh-button"
-                  onClick={() => this.fetchSvgFromUrl(config.sourceUrl)}
-                  title="Refresh graph"
-                  aria-label="Refresh graph"
+                  onClick={this.handleDataSourceChange}
+                  title={translate('refreshGraph')}
+                  aria-label={translate('refreshGraph')}
                 >
                   <svg viewBox="0 0 24 24" width="14" height="14" role="img" aria-hidden="true">
                     <path strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"
@@ -703,11 +2106,14 @@ export default class Widget extends React.PureComponent<AllWidgetProps<IMConfig>
                 <button
                   className="action-button expand-button"
                   onClick={this.toggleExpand}
-                  title="Close graph"
-                  aria-label="Close graph"
+                  title={translate('closeGraph')}
+                  aria-label={translate('closeGraph')}
                 >×</button>
+                {modeButton}
+                {viewButton}
+                {exportControl}
               </div>
-              {content}
+              {alertDetailsOpen ? this.renderAlertDetails() : body}
             </div>
           </div>,
           document.body
@@ -0,0 +1,57 @@
+/**
+ * Wind direction markers for the meteogram wind panel. `fromDirection` is
+ * the meteorological `wind_from_direction` in degrees (0 = from north).
+ */
+
+const MS_TO_KNOTS = 1.943844
+
+/** Arrow pointing the way the wind blows, centred on (x, y). */
+export const renderWindArrow = (x: number, y: number, fromDirection: number, color: string, size = 16): string => {
+  const h = size / 2
+  const head = size * 0.3
+  return `<g class="wind-arrow" transform="translate(${x.toFixed(2)},${y.toFixed(2)}) rotate(${((fromDirection + 180) % 360).toFixed(1)})">
+    <line x1="0" y1="${h}" x2="0" y2="${-h + 1}" stroke="${color}" stroke-width="1.6" stroke-linecap="round" />
+    <path d="M0,${-h} L${(head * 0.7).toFixed(2)},${(-h + head).toFixed(2)} L${(-head * 0.7).toFixed(2)},${(-h + head).toFixed(2)} Z" fill="${color}" />
+  </g>`
+}
+
+/**
+ * Standard wind barb: the staff points into the wind, pennants are 50 kt,
+ * full barbs 10 kt and half barbs 5 kt. Calm (< 2.5 kt) is drawn as a ring.
+ */
+export const renderWindBarb = (x: number, y: number, fromDirection: number, speedMs: number, color: string, size = 20): string => {
+  const knots = Math.round((speedMs * MS_TO_KNOTS) / 5) * 5
+  const translate = `translate(${x.toFixed(2)},${y.toFixed(2)})`
+  if (knots < 5) {
+    return `<g class="wind-barb" transform="${translate}"><circle r="3" fill="none" stroke="${color}" stroke-width="1.4" /></g>`
+  }
+
+  // Staff runs from the station (0, size/2) to the tip (0, -size/2) before rotation
+  const tip = -size / 2
+  const barbLength = size * 0.4
+  const spacing = size * 0.15
+  let remaining = knots
+  let offset = tip
+  const parts: string[] = []
+
+  while (remaining >= 50) {
+    parts.push(`<path d="M0,${offset.toFixed(2)} L${barbLength.toFixed(2)},${(offset + spacing).toFixed(2)} L0,${(offset + spacing * 2).toFixed(2)} Z" fill="${color}" />`)
+    offset += spacing * 2 + 1
+    remaining -= 50
+  }
+  while (remaining >= 10) {
+    parts.push(`<line x1="0" y1="${offset.toFixed(2)}" x2="${barbLength.toFixed(2)}" y2="${(offset - spacing).toFixed(2)}" />`)
+    offset += spacing
+    remaining -= 10
+  }
+  if (remaining >= 5) {
+    // A lone half barb is set in from the tip so it is not read as a full one
+    if (offset === tip) offset += spacing
+    parts.push(`<line x1="0" y1="${offset.toFixed(2)}" x2="${(barbLength / 2).toFixed(2)}" y2="${(offset - spacing / 2).toFixed(2)}" />`)
+  }
+
+  return `<g class="wind-barb" transform="${translate} rotate(${(fromDirection % 360).toFixed(1)})" stroke="${color}" stroke-width="1.4" stroke-linecap="round">
+    <line x1="0" y1="${size / 2}" x2="0" y2="${tip}" />
+    ${parts.join('')}
+  </g>`
+}
@@ -1,12 +1,56 @@
 /** @jsx jsx */
-import { React, jsx, type AllWidgetSettingProps } from 'jimu-core'
-import { NumericInput, TextInput, Switch } from 'jimu-ui'
-import { SettingSection, SettingRow } from 'jimu-ui/advanced/setting-components'
+import { React, jsx, Immutable, DataSourceTypes, getAppStore, type AllWidgetSettingProps, type UseDataSource, type IMState, type ImmutableArray } from 'jimu-core'
+import { NumericInput, TextInput, Switch, Select, Option, Button } from 'jimu-ui'
+import { SettingSection, SettingRow, MapWidgetSelector } from 'jimu-ui/advanced/setting-components'
+import { DataSourceSelector } from 'jimu-ui/advanced/data-source-selector'
 import { ThemeColorPicker } from 'jimu-ui/basic/color-picker'
 import { type IMConfig } from '../runtime/config'
+import { getOutputDataSourceJson, getOutputDataSourceId, hasCurrentOutputSchema } from '../runtime/output-data-source'
+import { extractCoordinates, getConfiguredLocation, isValidLatitude, isValidLongitude, isValidAltitude } from '../runtime/location'
+import { isValidTimeZone, resolveTimeZone, getNauticalOffsetLabel } from '../runtime/time-zones'
+import { DEFAULT_CUSTOM_FIELD_MAPPING, type CustomFieldMapping } from '../runtime/providers'
+import { getPanels, PANEL_IDS, type PanelId } from '../runtime/panels'
+import { EXPORT_FORMATS, getExportFormats, downloadBlob, type ExportFormat } from '../runtime/export'
+import { createRule, THRESHOLD_VARIABLES, THRESHOLD_COMPARATORS, THRESHOLD_UNITS, type ThresholdRule, type ThresholdVariable } from '../runtime/thresholds'
+import {
+  createColorRule, isValidColorRuleMatch, COLOR_RULE_TARGETS, COLOR_SETTINGS, DEFAULT_COLOR_RULES, type ColorRule
+} from '../runtime/color-rules'
+import { STYLE_PRESETS, STYLE_PRESET_IDS, findStylePreset, toStyleJson, parseStyleJson, type StylePresetId } from '../runtime/style-presets'
 import defaultMessages from './translations/default'
 
-export default class Setting extends React.PureComponent<AllWidgetSettingProps<IMConfig>, unknown> {
+interface ExtraProps {
+  // Colours found in the chart the widget last showed in the builder
+  svgColors?: ImmutableArray<string>
+}
+
+interface State {
+  showDetectedColors: boolean
+  // Outcome of the last style import
+  styleImportMessage: string | null
+}
+
+export default class Setting extends React.PureComponent<AllWidgetSettingProps<IMConfig> & ExtraProps, State> {
+  static mapExtraStateProps = (state: IMState, props: AllWidgetSettingProps<IMConfig>): ExtraProps => ({
+    svgColors: state.appStateInBuilder?.widgetsState?.[props.id]?.svgColors
+  })
+
+  state: State = {
+    showDetectedColors: false,
+    styleImportMessage: null
+  }
+
+  private styleFileRef = React.createRef<HTMLInputElement>()
+
+  componentDidMount(): void {
+    const stored = getAppStore().getState().appStateInBuilder?.appConfig?.dataSources?.[getOutputDataSourceId(this.props.id)]
+    // Apps saved before a field was added keep the old schema until it is written again
+    if (!this.props.outputDataSources?.length || !hasCurrentOutputSchema(stored)) {
+      const label = stored?.label ||
+        this.props.intl.formatMessage({ id: 'forecastOutput', defaultMessage: defaultMessages.forecastOutput }, { label: this.props.label })
+      this.props.onSettingChange({ id: this.props.id }, [getOutputDataSourceJson(this.props.id, label)])
+    }
+  }
+
   onConfigChange = (key: string, value: any): void => {
     this.props.onSettingChange({
       id: this.props.id,
@@ -14,8 +58,176 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
     })
   }
 
+  onFieldMappingChange = (field: keyof CustomFieldMapping, value: string): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      config: this.props.config.setIn(['customFieldMapping', field], value.trim())
+    })
+  }
+
+  movePanel = (index: number, offset: number): void => {
+    const panels = getPanels(this.props.config.panels)
+    const target = index + offset
+    if (target < 0 || target >= panels.length) return
+    const next = panels.slice()
+    next.splice(target, 0, next.splice(index, 1)[0])
+    this.onConfigChange('panels', next)
+  }
+
+  removePanel = (index: number): void => {
+    const panels = getPanels(this.props.config.panels)
+    // At least one panel has to stay
+    if (panels.length > 1) this.onConfigChange('panels', panels.filter((_, i) => i !== index))
+  }
+
+  addPanel = (panel: PanelId): void => {
+    const panels = getPanels(this.props.config.panels)
+    if (!panels.includes(panel)) this.onConfigChange('panels', [...panels, panel])
+  }
+
+  updateRule = (index: number, key: keyof ThresholdRule, value: any): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      config: this.props.config.setIn(['thresholdRules', index, key], value)
+    })
+  }
+
+  removeRule = (index: number): void => {
+    const rules = this.props.config.thresholdRules ?? Immutable([])
+    this.onConfigChange('thresholdRules', rules.filter((_, i) => i !== index))
+  }
+
+  addRule = (): void => {
+    const rules = this.props.config.thresholdRules ?? Immutable([])
+    this.onConfigChange('thresholdRules', rules.concat([createRule()]))
+  }
+
+  // Editing starts from the default preset while the widget still uses it
+  getColorRuleList = (): ImmutableArray<ColorRule> => this.props.config.colorRules ?? Immutable(DEFAULT_COLOR_RULES)
+
+  updateColorRule = (index: number, key: keyof ColorRule, value: any): void => {
+    this.onConfigChange('colorRules', this.getColorRuleList().setIn([index, key], value))
+  }
+
+  removeColorRule = (index: number): void => {
+    this.onConfigChange('colorRules', this.getColorRuleList().filter((_, i) => i !== index))
+  }
+
+  addColorRule = (match?: string): void => {
+    this.onConfigChange('colorRules', this.getColorRuleList().concat([createColorRule(match, match)]))
+  }
+
+  resetColorRules = (): void => {
+    this.onConfigChange('colorRules', null)
+  }
+
+  toggleDetectedColors = (): void => {
+    this.setState({ showDetectedColors: !this.state.showDetectedColors })
+  }
+
+  applyStylePreset = (preset: StylePresetId): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      config: this.props.config.merge(STYLE_PRESETS[preset])
+    })
+  }
+
+  exportStyle = (): void => {
+    downloadBlob(new Blob([toStyleJson(this.props.config)], { type: 'application/json' }), 'yr-weather-style.json')
+  }
+
+  importStyle = (evt: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = evt.target.files?.[0]
+    // Lets the same file be picked again after editing it
+    evt.target.value = ''
+    if (!file) return
+    const { intl } = this.props
+    file.text().then(text => {
+      const result = parseStyleJson(text)
+      if (!result) {
+        this.setState({ styleImportMessage: intl.formatMessage({ id: 'styleImportInvalid', defaultMessage: defaultMessages.styleImportInvalid }) })
+        return
+      }
+      this.props.onSettingChange({
+        id: this.props.id,
+        config: this.props.config.merge(result.style)
+      })
+      const count = Object.keys(result.style).length
+      this.setState({
+        styleImportMessage: result.skipped.length
+          ? intl.formatMessage({ id: 'styleImportSkipped', defaultMessage: defaultMessages.styleImportSkipped }, { count, keys: result.skipped.join(', ') })
+          : intl.formatMessage({ id: 'styleImported', defaultMessage: defaultMessages.styleImported }, { count })
+      })
+    }).catch(err => {
+      console.error('Failed to read style file:', err)
+      this.setState({ styleImportMessage: intl.formatMessage({ id: 'styleImportInvalid', defaultMessage: defaultMessages.styleImportInvalid }) })
+    })
+  }
+
+  toggleExportFormat = (format: ExportFormat, enabled: boolean): void => {
+    const formats = getExportFormats(this.props.config.exportFormats).filter(f => f !== format)
+    // Keep the menu order stable whichever switch was flipped last
+    this.onConfigChange('exportFormats', EXPORT_FORMATS.filter(f => f === format ? enabled : formats.includes(f)))
+  }
+
+  // The URL doubles as an import helper: coordinates found in it fill the location fields
+  onSourceUrlChange = (url: string): void => {
+    let config = this.props.config.set('sourceUrl', url)
+    const coords = extractCoordinates(url)
+    if (coords) {
+      config = config.set('latitude', coords.lat).set('longitude', coords.lon)
+      if (typeof coords.altitude === 'number') config = config.set('altitude', coords.altitude)
+    }
+    this.props.onSettingChange({
+      id: this.props.id,
+      config
+    })
+  }
+
+  onMapWidgetSelected = (useMapWidgetIds: string[]): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      useMapWidgetIds
+    })
+  }
+
+  onDataSourceChange = (useDataSources: UseDataSource[]): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      useDataSources
+    })
+  }
+
+  onToggleUseDataEnabled = (useDataSourcesEnabled: boolean): void => {
+    this.props.onSettingChange({
+      id: this.props.id,
+      useDataSourcesEnabled
+    })
+  }
+
   render(): React.ReactElement {
-    const { config, intl } = this.props
+    const { config, intl, id, useMapWidgetIds, useDataSources, useDataSourcesEnabled } = this.props
+    const panels = getPanels(config.panels)
+    const availablePanels = PANEL_IDS.filter(panel => !panels.includes(panel))
+    const panelLabel = (panel: PanelId): string => {
+      const messageId = `panel${panel.charAt(0).toUpperCase()}${panel.slice(1)}`
+      return intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })
+    }
+    const exportFormats = getExportFormats(config.exportFormats)
+    const colorRules = this.getColorRuleList()
+    const svgColors = this.props.svgColors?.asMutable() ?? []
+    const configuredLocation = getConfiguredLocation(config)
+    // The offline lookup only knows real zones for Europe and North America
+    const nauticalOffset = configuredLocation && getNauticalOffsetLabel(resolveTimeZone(configuredLocation.lat, configuredLocation.lon))
+    const stylePreset = findStylePreset(config)
+    const presetLabel = (preset: StylePresetId): string => {
+      const messageId = `preset${preset.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')}`
+      return intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })
+    }
+    const variableLabel = (variable: ThresholdVariable): string => {
+      const messageId = `variable${variable.charAt(0).toUpperCase()}${variable.slice(1)}`
+      return intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })
+    }
 
     const svgCodeBoxStyle = {
       width: '100%',
@@ -44,6 +256,14 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
     }
 
     const narrowNumericBoxStyle = { width: '60px' }
+    const wideNumericBoxStyle = { width: '110px' }
+
+    const validationTextStyle = {
+      fontSize: '12px',
+      color: '#ff6b6b',
+      marginTop: '-8px',
+      marginBottom: '12px'
+    }
 
     return (
       <div className="jimu-widget-setting">
@@ -54,9 +274,12 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
             </span>
             <TextInput
               value={config.sourceUrl}
-              onChange={(e) => { this.onConfigChange('sourceUrl', e.target.value) }}
+              onChange={(e) => { this.onSourceUrlChange(e.target.value) }}
               placeholder="https://www.yr.no/en/content/.../meteogram.svg"
             />
+            <span style={{ ...labelTextStyle, display: 'block', marginTop: '4px', whiteSpace: 'normal' }}>
+              {intl.formatMessage({ id: 'sourceUrlHint', defaultMessage: defaultMessages.sourceUrlHint })}
+            </span>
           </div>
 
           <div style={horizontalRowStyle}>
@@ -67,6 +290,34 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
             />
           </div>
 
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'forecastHorizon', defaultMessage: defaultMessages.forecastHorizon })}</span>
+            <Select
+              size="sm"
+              style={{ width: '110px' }}
+              value={config.forecastHorizon ?? '48h'}
+              onChange={(e) => { this.onConfigChange('forecastHorizon', e.target.value) }}
+            >
+              <Option value="24h">{intl.formatMessage({ id: 'horizon24h', defaultMessage: defaultMessages.horizon24h })}</Option>
+              <Option value="48h">{intl.formatMessage({ id: 'horizon48h', defaultMessage: defaultMessages.horizon48h })}</Option>
+              <Option value="3d">{intl.formatMessage({ id: 'horizon3d', defaultMessage: defaultMessages.horizon3d })}</Option>
+              <Option value="full">{intl.formatMessage({ id: 'horizonFull', defaultMessage: defaultMessages.horizonFull })}</Option>
+            </Select>
+          </div>
+
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'showUncertainty', defaultMessage: defaultMessages.showUncertainty })}</span>
+            <Switch
+              checked={!!config.showUncertainty}
+              onChange={(evt) => { this.onConfigChange('showUncertainty', evt.target.checked) }}
+            />
+          </div>
+          {config.showUncertainty && (
+            <span style={{ ...labelTextStyle, display: 'block', marginBottom: '8px', whiteSpace: 'normal' }}>
+              {intl.formatMessage({ id: 'showUncertaintyHint', defaultMessage: defaultMessages.showUncertaintyHint })}
+            </span>
+          )}
+
           {config.autoRefreshEnabled && (
             <div style={horizontalRowStyle}>
               <span style={labelTextStyle}>{intl.formatMessage({ id: 'refreshInterval', defaultMessage: defaultMessages.refreshInterval })}</span>
@@ -82,6 +333,379 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
               />
             </div>
           )}
+          {config.autoRefreshEnabled && (
+            <span style={{ ...labelTextStyle, display: 'block', marginTop: '4px', whiteSpace: 'normal' }}>
+              {intl.formatMessage({ id: 'refreshIntervalHint', defaultMessage: defaultMessages.refreshIntervalHint })}
+            </span>
+          )}
+
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'enableNowcast', defaultMessage: defaultMessages.enableNowcast })}</span>
+            <Switch
+              checked={!!config.enableNowcast}
+              onChange={(evt) => { this.onConfigChange('enableNowcast', evt.target.checked) }}
+            />
+          </div>
+          {config.enableNowcast && (
+            <div style={horizontalRowStyle}>
+              <span style={labelTextStyle}>{intl.formatMessage({ id: 'nowcastRefreshInterval', defaultMessage: defaultMessages.nowcastRefreshInterval })}</span>
+              <NumericInput
+                style={narrowNumericBoxStyle}
+                value={config.nowcastRefreshInterval}
+                onAcceptValue={(value) => { this.onConfigChange('nowcastRefreshInterval', value) }}
+                min={1}
+                max={60}
+                step={1}
+                size="sm"
+                showHandlers={false}
+                suffix="min"
+              />
+            </div>
+          )}
+          {config.enableNowcast && (
+            <span style={{ ...labelTextStyle, display: 'block', marginTop: '4px', whiteSpace: 'normal' }}>
+              {intl.formatMessage({ id: 'enableNowcastHint', defaultMessage: defaultMessages.enableNowcastHint })}
+            </span>
+          )}
+
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'showWarnings', defaultMessage: defaultMessages.showWarnings })}</span>
+            <Switch
+              checked={!!config.showWarnings}
+              onChange={(evt) => { this.onConfigChange('showWarnings', evt.target.checked) }}
+            />
+          </div>
+          {config.showWarnings && (
+            <div style={{ marginBottom: '12px' }}>
+              <span style={{ ...labelTextStyle, display: 'block', marginBottom: '4px' }}>
+                {intl.formatMessage({ id: 'warningsFeedUrl', defaultMessage: defaultMessages.warningsFeedUrl })}
+              </span>
+              <TextInput
+                value={config.warningsFeedUrl}
+                onChange={(e) => { this.onConfigChange('warningsFeedUrl', e.target.value.trim()) }}
+                placeholder="https://api.met.no/weatherapi/metalerts/2.0/current.json"
+              />
+              <span style={{ ...labelTextStyle, display: 'block', marginTop: '4px', whiteSpace: 'normal' }}>
+                {intl.formatMessage({ id: 'warningsFeedUrlHint', defaultMessage: defaultMessages.warningsFeedUrlHint })}
+              </span>
+            </div>
+          )}
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'location', defaultMessage: defaultMessages.location })}>
+          <div style={{ marginBottom: '12px' }}>
+            <span style={{ ...labelTextStyle, display: 'block', marginBottom: '4px' }}>
+              {intl.formatMessage({ id: 'locationName', defaultMessage: defaultMessages.locationName })}
+            </span>
+            <TextInput
+              value={config.locationName}
+              onChange={(e) => { this.onConfigChange('locationName', e.target.value) }}
+              placeholder={intl.formatMessage({ id: 'locationNamePlaceholder', defaultMessage: defaultMessages.locationNamePlaceholder })}
+            />
+          </div>
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'latitude', defaultMessage: defaultMessages.latitude })}</span>
+            <NumericInput style={wideNumericBoxStyle} value={config.latitude} onAcceptValue={(value) => { this.onConfigChange('latitude', value ?? null) }} step={0.0001} precision={4} showHandlers={false} size="sm" suffix="°" />
+          </div>
+          {config.latitude !== null && config.latitude !== undefined && !isValidLatitude(config.latitude) && (
+            <div style={validationTextStyle}>{intl.formatMessage({ id: 'latitudeInvalid', defaultMessage: defaultMessages.latitudeInvalid })}</div>
+          )}
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'longitude', defaultMessage: defaultMessages.longitude })}</span>
+            <NumericInput style={wideNumericBoxStyle} value={config.longitude} onAcceptValue={(value) => { this.onConfigChange('longitude', value ?? null) }} step={0.0001} precision={4} showHandlers={false} size="sm" suffix="°" />
+          </div>
+          {config.longitude !== null && config.longitude !== undefined && !isValidLongitude(config.longitude) && (
+            <div style={validationTextStyle}>{intl.formatMessage({ id: 'longitudeInvalid', defaultMessage: defaultMessages.longitudeInvalid })}</div>
+          )}
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'altitude', defaultMessage: defaultMessages.altitude })}</span>
+            <NumericInput style={wideNumericBoxStyle} value={config.altitude} onAcceptValue={(value) => { this.onConfigChange('altitude', value ?? null) }} step={1} showHandlers={false} size="sm" suffix="m" />
+          </div>
+          {!isValidAltitude(config.altitude) && (
+            <div style={validationTextStyle}>{intl.formatMessage({ id: 'altitudeInvalid', defaultMessage: defaultMessages.altitudeInvalid })}</div>
+          )}
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'forecastProvider', defaultMessage: defaultMessages.forecastProvider })}>
+          <SettingRow label={intl.formatMessage({ id: 'provider', defaultMessage: defaultMessages.provider })}>
+            <Select size="sm" style={{ width: '140px' }} value={config.forecastProvider ?? 'metno-compact'} onChange={(e) => { this.onConfigChange('forecastProvider', e.target.value) }}>
+              <Option value="metno-compact">{intl.formatMessage({ id: 'providerMetNoCompact', defaultMessage: defaultMessages.providerMetNoCompact })}</Option>
+              <Option value="metno-complete">{intl.formatMessage({ id: 'providerMetNoComplete', defaultMessage: defaultMessages.providerMetNoComplete })}</Option>
+              <Option value="open-meteo">{intl.formatMessage({ id: 'providerOpenMeteo', defaultMessage: defaultMessages.providerOpenMeteo })}</Option>
+              <Option value="custom">{intl.formatMessage({ id: 'providerCustom', defaultMessage: defaultMessages.providerCustom })}</Option>
+            </Select>
+          </SettingRow>
+          {config.forecastProvider === 'custom'
+            ? (
+              <div style={{ marginBottom: '12px' }}>
+                <span style={{ ...labelTextStyle, display: 'block', marginBottom: '4px' }}>
+                  {intl.formatMessage({ id: 'customEndpointUrl', defaultMessage: defaultMessages.customEndpointUrl })}
+                </span>
+                <TextInput
+                  value={config.customEndpointUrl}
+                  onChange={(e) => { this.onConfigChange('customEndpointUrl', e.target.value.trim()) }}
+                  placeholder="https://weather.example.com/forecast?lat={lat}&lon={lon}"
+                />
+                <span style={{ ...labelTextStyle, display: 'block', margin: '4px 0 8px', whiteSpace: 'normal' }}>
+                  {intl.formatMessage({ id: 'customEndpointHint', defaultMessage: defaultMessages.customEndpointHint })}
+                </span>
+                {(Object.keys(DEFAULT_CUSTOM_FIELD_MAPPING) as Array<keyof CustomFieldMapping>).map(field => {
+                  const messageId = `mapping${field.charAt(0).toUpperCase()}${field.slice(1)}`
+                  return (
+                  <div key={field} style={{ marginBottom: '6px' }}>
+                    <span style={{ ...labelTextStyle, display: 'block', marginBottom: '2px' }}>
+                      {intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })}
+                    </span>
+                    <TextInput
+                      size="sm"
+                      value={config.customFieldMapping?.[field] ?? DEFAULT_CUSTOM_FIELD_MAPPING[field]}
+                      onChange={(e) => { this.onFieldMappingChange(field, e.target.value) }}
+                    />
+                  </div>
+                  )
+                })}
+              </div>
+              )
+            : (
+              <div style={{ marginBottom: '12px' }}>
+                <span style={{ ...labelTextStyle, display: 'block', marginBottom: '4px' }}>
+                  {intl.formatMessage({ id: 'providerBaseUrl', defaultMessage: defaultMessages.providerBaseUrl })}
+                </span>
+                <TextInput
+                  value={config.providerBaseUrl}
+                  onChange={(e) => { this.onConfigChange('providerBaseUrl', e.target.value.trim()) }}
+                  placeholder={config.forecastProvider === 'open-meteo' ? 'https://api.open-meteo.com' : 'https://api.met.no/weatherapi/locationforecast/2.0'}
+                />
+                <span style={{ ...labelTextStyle, display: 'block', marginTop: '4px', whiteSpace: 'normal' }}>
+                  {intl.formatMessage({ id: 'providerBaseUrlHint', defaultMessage: defaultMessages.providerBaseUrlHint })}
+                </span>
+              </div>
+              )}
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'linkedLocation', defaultMessage: defaultMessages.linkedLocation })}>
+          <SettingRow flow="wrap" label={intl.formatMessage({ id: 'linkedMap', defaultMessage: defaultMessages.linkedMap })}>
+            <MapWidgetSelector useMapWidgetIds={useMapWidgetIds} onSelect={this.onMapWidgetSelected} />
+          </SettingRow>
+          <SettingRow flow="wrap" label={intl.formatMessage({ id: 'linkedDataSource', defaultMessage: defaultMessages.linkedDataSource })}>
+            <DataSourceSelector
+              types={Immutable([DataSourceTypes.FeatureLayer])}
+              useDataSources={useDataSources}
+              useDataSourcesEnabled={useDataSourcesEnabled}
+              onToggleUseDataEnabled={this.onToggleUseDataEnabled}
+              onChange={this.onDataSourceChange}
+              widgetId={id}
+              isMultiple={false}
+            />
+          </SettingRow>
+          <span style={{ ...labelTextStyle, whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'linkedLocationHint', defaultMessage: defaultMessages.linkedLocationHint })}
+          </span>
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'timeZoneSection', defaultMessage: defaultMessages.timeZoneSection })}>
+          <SettingRow label={intl.formatMessage({ id: 'timeZoneMode', defaultMessage: defaultMessages.timeZoneMode })}>
+            <Select size="sm" style={{ width: '110px' }} value={config.timeZoneMode ?? 'location'} onChange={(e) => { this.onConfigChange('timeZoneMode', e.target.value) }}>
+              <Option value="location">{intl.formatMessage({ id: 'timeZoneLocation', defaultMessage: defaultMessages.timeZoneLocation })}</Option>
+              <Option value="custom">{intl.formatMessage({ id: 'timeZoneCustom', defaultMessage: defaultMessages.timeZoneCustom })}</Option>
+            </Select>
+          </SettingRow>
+          {config.timeZoneMode !== 'custom' && nauticalOffset && (
+            <div style={{ ...validationTextStyle, marginTop: '0', marginBottom: '8px' }}>
+              {intl.formatMessage({ id: 'timeZoneApproximate', defaultMessage: defaultMessages.timeZoneApproximate }, { offset: nauticalOffset })}
+              <div style={{ marginTop: '4px' }}>
+                <Button size="sm" type="secondary" onClick={() => { this.onConfigChange('timeZoneMode', 'custom') }}>
+                  {intl.formatMessage({ id: 'useCustomTimeZone', defaultMessage: defaultMessages.useCustomTimeZone })}
+                </Button>
+              </div>
+            </div>
+          )}
+          {config.timeZoneMode !== 'custom' && !nauticalOffset && (
+            <span style={{ ...labelTextStyle, display: 'block', whiteSpace: 'normal' }}>
+              {intl.formatMessage({ id: 'timeZoneLocationHint', defaultMessage: defaultMessages.timeZoneLocationHint })}
+            </span>
+          )}
+          {config.timeZoneMode === 'custom' && (
+            <div style={{ marginBottom: '12px' }}>
+              <TextInput
+                value={config.timeZone}
+                onChange={(e) => { this.onConfigChange('timeZone', e.target.value.trim()) }}
+                placeholder="Europe/Oslo"
+              />
+              {config.timeZone && !isValidTimeZone(config.timeZone) && (
+                <div style={{ ...validationTextStyle, marginTop: '4px' }}>{intl.formatMessage({ id: 'timeZoneInvalid', defaultMessage: defaultMessages.timeZoneInvalid })}</div>
+              )}
+            </div>
+          )}
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'units', defaultMessage: defaultMessages.units })}>
+          <SettingRow label={intl.formatMessage({ id: 'temperatureUnit', defaultMessage: defaultMessages.temperatureUnit })}>
+            <Select size="sm" style={{ width: '110px' }} value={config.temperatureUnit ?? 'celsius'} onChange={(e) => { this.onConfigChange('temperatureUnit', e.target.value) }}>
+              <Option value="celsius">°C</Option>
+              <Option value="fahrenheit">°F</Option>
+            </Select>
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'windUnit', defaultMessage: defaultMessages.windUnit })}>
+            <Select size="sm" style={{ width: '110px' }} value={config.windUnit ?? 'ms'} onChange={(e) => { this.onConfigChange('windUnit', e.target.value) }}>
+              <Option value="ms">m/s</Option>
+              <Option value="kmh">km/h</Option>
+              <Option value="mph">mph</Option>
+              <Option value="knots">{intl.formatMessage({ id: 'knots', defaultMessage: defaultMessages.knots })}</Option>
+              <Option value="beaufort">{intl.formatMessage({ id: 'beaufort', defaultMessage: defaultMessages.beaufort })}</Option>
+            </Select>
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'precipitationUnit', defaultMessage: defaultMessages.precipitationUnit })}>
+            <Select size="sm" style={{ width: '110px' }} value={config.precipitationUnit ?? 'mm'} onChange={(e) => { this.onConfigChange('precipitationUnit', e.target.value) }}>
+              <Option value="mm">mm</Option>
+              <Option value="inches">{intl.formatMessage({ id: 'inches', defaultMessage: defaultMessages.inches })}</Option>
+            </Select>
+          </SettingRow>
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'layoutSection', defaultMessage: defaultMessages.layoutSection })}>
+          <SettingRow label={intl.formatMessage({ id: 'layoutMode', defaultMessage: defaultMessages.layoutMode })}>
+            <Select size="sm" style={{ width: '140px' }} value={config.layoutMode ?? 'auto'} onChange={(e) => { this.onConfigChange('layoutMode', e.target.value) }}>
+              <Option value="auto">{intl.formatMessage({ id: 'layoutAuto', defaultMessage: defaultMessages.layoutAuto })}</Option>
+              <Option value="chart">{intl.formatMessage({ id: 'layoutChart', defaultMessage: defaultMessages.layoutChart })}</Option>
+              <Option value="card">{intl.formatMessage({ id: 'layoutCard', defaultMessage: defaultMessages.layoutCard })}</Option>
+            </Select>
+          </SettingRow>
+          {(config.layoutMode ?? 'auto') === 'auto' && (
+            <SettingRow label={intl.formatMessage({ id: 'compactBreakpoint', defaultMessage: defaultMessages.compactBreakpoint })}>
+              <NumericInput
+                style={narrowNumericBoxStyle}
+                value={config.compactBreakpoint ?? 400}
+                onAcceptValue={(value) => { this.onConfigChange('compactBreakpoint', value) }}
+                min={0}
+                step={10}
+                size="sm"
+                showHandlers={false}
+                suffix="px"
+              />
+            </SettingRow>
+          )}
+          <span style={{ ...labelTextStyle, display: 'block', whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'layoutHint', defaultMessage: defaultMessages.layoutHint })}
+          </span>
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'chartPanels', defaultMessage: defaultMessages.chartPanels })}>
+          {panels.map((panel, index) => (
+            <div key={panel} style={{ ...horizontalRowStyle, marginBottom: '6px' }}>
+              <span style={labelTextStyle}>{panelLabel(panel)}</span>
+              <div style={{ display: 'flex', gap: '2px' }}>
+                <Button size="sm" type="tertiary" icon disabled={index === 0} onClick={() => { this.movePanel(index, -1) }}
+                  title={intl.formatMessage({ id: 'movePanelUp', defaultMessage: defaultMessages.movePanelUp })}
+                  aria-label={intl.formatMessage({ id: 'movePanelUp', defaultMessage: defaultMessages.movePanelUp })}>↑</Button>
+                <Button size="sm" type="tertiary" icon disabled={index === panels.length - 1} onClick={() => { this.movePanel(index, 1) }}
+                  title={intl.formatMessage({ id: 'movePanelDown', defaultMessage: defaultMessages.movePanelDown })}
+                  aria-label={intl.formatMessage({ id: 'movePanelDown', defaultMessage: defaultMessages.movePanelDown })}>↓</Button>
+                <Button size="sm" type="tertiary" icon disabled={panels.length === 1} onClick={() => { this.removePanel(index) }}
+                  title={intl.formatMessage({ id: 'removePanel', defaultMessage: defaultMessages.removePanel })}
+                  aria-label={intl.formatMessage({ id: 'removePanel', defaultMessage: defaultMessages.removePanel })}>✕</Button>
+              </div>
+            </div>
+          ))}
+          {availablePanels.length > 0 && (
+            <SettingRow label={intl.formatMessage({ id: 'addPanel', defaultMessage: defaultMessages.addPanel })}>
+              <Select size="sm" style={{ width: '140px' }} value="" onChange={(e) => { if (e.target.value) this.addPanel(e.target.value as PanelId) }}>
+                <Option value="" disabled>{intl.formatMessage({ id: 'choosePanel', defaultMessage: defaultMessages.choosePanel })}</Option>
+                {availablePanels.map(panel => (
+                  <Option key={panel} value={panel}>{panelLabel(panel)}</Option>
+                ))}
+              </Select>
+            </SettingRow>
+          )}
+          <span style={{ ...labelTextStyle, display: 'block', whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'chartPanelsHint', defaultMessage: defaultMessages.chartPanelsHint })}
+          </span>
+          <div style={{ ...horizontalRowStyle, marginTop: '12px' }}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'showNightShading', defaultMessage: defaultMessages.showNightShading })}</span>
+            <Switch
+              checked={!!config.showNightShading}
+              onChange={(evt) => { this.onConfigChange('showNightShading', evt.target.checked) }}
+            />
+          </div>
+          <div style={horizontalRowStyle}>
+            <span style={labelTextStyle}>{intl.formatMessage({ id: 'showSunTimes', defaultMessage: defaultMessages.showSunTimes })}</span>
+            <Switch
+              checked={!!config.showSunTimes}
+              onChange={(evt) => { this.onConfigChange('showSunTimes', evt.target.checked) }}
+            />
+          </div>
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'thresholdRules', defaultMessage: defaultMessages.thresholdRules })}>
+          {(config.thresholdRules ?? []).map((rule, index) => (
+            <div key={rule.id} style={{ marginBottom: '12px', paddingBottom: '8px', borderBottom: '1px solid var(--light-300)' }}>
+              <div style={{ display: 'flex', gap: '4px', marginBottom: '6px' }}>
+                <Select size="sm" style={{ width: '110px' }} value={rule.variable} onChange={(e) => { this.updateRule(index, 'variable', e.target.value) }}
+                  aria-label={intl.formatMessage({ id: 'ruleVariable', defaultMessage: defaultMessages.ruleVariable })}>
+                  {THRESHOLD_VARIABLES.map(variable => (
+                    <Option key={variable} value={variable}>{variableLabel(variable)}</Option>
+                  ))}
+                </Select>
+                <Select size="sm" style={{ width: '56px' }} value={rule.comparator} onChange={(e) => { this.updateRule(index, 'comparator', e.target.value) }}
+                  aria-label={intl.formatMessage({ id: 'ruleComparator', defaultMessage: defaultMessages.ruleComparator })}>
+                  {THRESHOLD_COMPARATORS.map(comparator => (
+                    <Option key={comparator} value={comparator}>{comparator}</Option>
+                  ))}
+                </Select>
+                <NumericInput
+                  style={{ width: '80px' }}
+                  value={rule.threshold}
+                  onAcceptValue={(value) => { this.updateRule(index, 'threshold', value) }}
+                  step={0.5}
+                  size="sm"
+                  showHandlers={false}
+                  suffix={THRESHOLD_UNITS[rule.variable]}
+                  aria-label={intl.formatMessage({ id: 'ruleThreshold', defaultMessage: defaultMessages.ruleThreshold })}
+                />
+              </div>
+              <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                <TextInput
+                  size="sm"
+                  style={{ flex: 1 }}
+                  value={rule.label}
+                  onChange={(e) => { this.updateRule(index, 'label', e.target.value) }}
+                  placeholder={intl.formatMessage({ id: 'ruleLabelPlaceholder', defaultMessage: defaultMessages.ruleLabelPlaceholder })}
+                />
+                <ThemeColorPicker value={rule.color} onChange={(color) => { this.updateRule(index, 'color', color) }} />
+                <Button size="sm" type="tertiary" icon onClick={() => { this.removeRule(index) }}
+                  title={intl.formatMessage({ id: 'removeRule', defaultMessage: defaultMessages.removeRule })}
+                  aria-label={intl.formatMessage({ id: 'removeRule', defaultMessage: defaultMessages.removeRule })}>✕</Button>
+              </div>
+            </div>
+          ))}
+          <Button size="sm" type="secondary" onClick={this.addRule}>
+            {intl.formatMessage({ id: 'addRule', defaultMessage: defaultMessages.addRule })}
+          </Button>
+          <span style={{ ...labelTextStyle, display: 'block', marginTop: '8px', whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'thresholdRulesHint', defaultMessage: defaultMessages.thresholdRulesHint })}
+          </span>
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'export', defaultMessage: defaultMessages.export })}>
+          {EXPORT_FORMATS.map(format => {
+            const messageId = `export${format.charAt(0).toUpperCase()}${format.slice(1)}`
+            return (
+              <div key={format} style={horizontalRowStyle}>
+                <span style={labelTextStyle}>{intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })}</span>
+                <Switch
+                  checked={exportFormats.includes(format)}
+                  onChange={(evt) => { this.toggleExportFormat(format, evt.target.checked) }}
+                />
+              </div>
+            )
+          })}
+          {exportFormats.includes('png') && (
+            <SettingRow label={intl.formatMessage({ id: 'pngScale', defaultMessage: defaultMessages.pngScale })}>
+              <Select size="sm" style={{ width: '80px' }} value={config.pngScale ?? 2} onChange={(e) => { this.onConfigChange('pngScale', Number(e.target.value)) }}>
+                {[1, 2, 3, 4].map(scale => <Option key={scale} value={scale}>{scale}×</Option>)}
+              </Select>
+            </SettingRow>
+          )}
         </SettingSection>
 
         <SettingSection title={intl.formatMessage({ id: 'fallbackContent', defaultMessage: defaultMessages.fallbackContent })}>
@@ -93,6 +717,30 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
           />
         </SettingSection>
 
+        <SettingSection title={intl.formatMessage({ id: 'stylePresets', defaultMessage: defaultMessages.stylePresets })}>
+          <SettingRow label={intl.formatMessage({ id: 'stylePreset', defaultMessage: defaultMessages.stylePreset })}>
+            <Select size="sm" style={{ width: '140px' }} value={stylePreset ?? ''} onChange={(e) => { if (e.target.value) this.applyStylePreset(e.target.value as StylePresetId) }}>
+              {!stylePreset && <Option value="">{intl.formatMessage({ id: 'presetCustom', defaultMessage: defaultMessages.presetCustom })}</Option>}
+              {STYLE_PRESET_IDS.map(preset => <Option key={preset} value={preset}>{presetLabel(preset)}</Option>)}
+            </Select>
+          </SettingRow>
+          <span style={{ ...labelTextStyle, display: 'block', marginBottom: '8px', whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'stylePresetHint', defaultMessage: defaultMessages.stylePresetHint })}
+          </span>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <Button size="sm" type="secondary" onClick={this.exportStyle}>
+              {intl.formatMessage({ id: 'exportStyle', defaultMessage: defaultMessages.exportStyle })}
+            </Button>
+            <Button size="sm" type="secondary" onClick={() => { this.styleFileRef.current?.click() }}>
+              {intl.formatMessage({ id: 'importStyle', defaultMessage: defaultMessages.importStyle })}
+            </Button>
+            <input ref={this.styleFileRef} type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={this.importStyle} />
+          </div>
+          {this.state.styleImportMessage && (
+            <div role="status" style={{ ...labelTextStyle, marginTop: '8px', whiteSpace: 'normal' }}>{this.state.styleImportMessage}</div>
+          )}
+        </SettingSection>
+
         <SettingSection title={intl.formatMessage({ id: 'generalStyling', defaultMessage: defaultMessages.generalStyling })}>
           <SettingRow label={intl.formatMessage({ id: 'overallBackground', defaultMessage: defaultMessages.overallBackground })}>
             <ThemeColorPicker value={config.overallBackground} onChange={(color) => { this.onConfigChange('overallBackground', color) }} />
@@ -136,7 +784,7 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
           <SettingRow label={intl.formatMessage({ id: 'secondaryTextColor', defaultMessage: defaultMessages.secondaryTextColor })}>
             <ThemeColorPicker value={config.secondaryTextColor} onChange={(color) => { this.onConfigChange('secondaryTextColor', color) }} />
           </SettingRow>
-          <SettingRow label="Axis Icons">
+          <SettingRow label={intl.formatMessage({ id: 'yAxisIconColor', defaultMessage: defaultMessages.yAxisIconColor })}>
             <ThemeColorPicker value={config.yAxisIconColor} onChange={(color) => { this.onConfigChange('yAxisIconColor', color) }} />
           </SettingRow>
         </SettingSection>
@@ -163,6 +811,23 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
           <SettingRow label={intl.formatMessage({ id: 'windGustLineColor', defaultMessage: defaultMessages.windGustLineColor })}>
             <ThemeColorPicker value={config.windGustLineColor} onChange={(color) => { this.onConfigChange('windGustLineColor', color) }} />
           </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'windDirectionStyle', defaultMessage: defaultMessages.windDirectionStyle })}>
+            <Select
+              size="sm"
+              style={{ width: '110px' }}
+              value={config.windDirectionStyle ?? 'arrows'}
+              onChange={(e) => { this.onConfigChange('windDirectionStyle', e.target.value) }}
+            >
+              <Option value="arrows">{intl.formatMessage({ id: 'windDirectionArrows', defaultMessage: defaultMessages.windDirectionArrows })}</Option>
+              <Option value="barbs">{intl.formatMessage({ id: 'windDirectionBarbs', defaultMessage: defaultMessages.windDirectionBarbs })}</Option>
+              <Option value="none">{intl.formatMessage({ id: 'windDirectionNone', defaultMessage: defaultMessages.windDirectionNone })}</Option>
+            </Select>
+          </SettingRow>
+          {config.windDirectionStyle !== 'none' && (
+            <SettingRow label={intl.formatMessage({ id: 'windDirectionColor', defaultMessage: defaultMessages.windDirectionColor })}>
+              <ThemeColorPicker value={config.windDirectionColor} onChange={(color) => { this.onConfigChange('windDirectionColor', color) }} />
+            </SettingRow>
+          )}
 
           <SettingRow label={intl.formatMessage({ id: 'precipitationBarColor', defaultMessage: defaultMessages.precipitationBarColor })}>
             <ThemeColorPicker value={config.precipitationBarColor} onChange={(color) => { this.onConfigChange('precipitationBarColor', color) }} />
@@ -170,6 +835,129 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
           <SettingRow label={intl.formatMessage({ id: 'maxPrecipitationColor', defaultMessage: defaultMessages.maxPrecipitationColor })}>
             <ThemeColorPicker value={config.maxPrecipitationColor} onChange={(color) => { this.onConfigChange('maxPrecipitationColor', color) }} />
           </SettingRow>
+          {panels.includes('cloudCover') && (
+            <SettingRow label={intl.formatMessage({ id: 'cloudCoverColor', defaultMessage: defaultMessages.cloudCoverColor })}>
+              <ThemeColorPicker value={config.cloudCoverColor} onChange={(color) => { this.onConfigChange('cloudCoverColor', color) }} />
+            </SettingRow>
+          )}
+          {panels.includes('humidity') && (
+            <SettingRow label={intl.formatMessage({ id: 'humidityColor', defaultMessage: defaultMessages.humidityColor })}>
+              <ThemeColorPicker value={config.humidityColor} onChange={(color) => { this.onConfigChange('humidityColor', color) }} />
+            </SettingRow>
+          )}
+          {panels.includes('pressure') && (
+            <SettingRow label={intl.formatMessage({ id: 'pressureColor', defaultMessage: defaultMessages.pressureColor })}>
+              <ThemeColorPicker value={config.pressureColor} onChange={(color) => { this.onConfigChange('pressureColor', color) }} />
+            </SettingRow>
+          )}
+          {panels.includes('dewPoint') && (
+            <SettingRow label={intl.formatMessage({ id: 'dewPointColor', defaultMessage: defaultMessages.dewPointColor })}>
+              <ThemeColorPicker value={config.dewPointColor} onChange={(color) => { this.onConfigChange('dewPointColor', color) }} />
+            </SettingRow>
+          )}
+          {panels.includes('uvIndex') && (
+            <SettingRow label={intl.formatMessage({ id: 'uvIndexColor', defaultMessage: defaultMessages.uvIndexColor })}>
+              <ThemeColorPicker value={config.uvIndexColor} onChange={(color) => { this.onConfigChange('uvIndexColor', color) }} />
+            </SettingRow>
+          )}
+          {config.showNightShading && (
+            <React.Fragment>
+              <SettingRow label={intl.formatMessage({ id: 'nightShadingColor', defaultMessage: defaultMessages.nightShadingColor })}>
+                <ThemeColorPicker value={config.nightShadingColor} onChange={(color) => { this.onConfigChange('nightShadingColor', color) }} />
+              </SettingRow>
+              <SettingRow label={intl.formatMessage({ id: 'nightShadingOpacity', defaultMessage: defaultMessages.nightShadingOpacity })}>
+                <NumericInput
+                  style={narrowNumericBoxStyle}
+                  value={config.nightShadingOpacity}
+                  onAcceptValue={(value) => { this.onConfigChange('nightShadingOpacity', value) }}
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  precision={2}
+                  size="sm"
+                  showHandlers={false}
+                />
+              </SettingRow>
+            </React.Fragment>
+          )}
+        </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'colorRules', defaultMessage: defaultMessages.colorRules })}>
+          {colorRules.map((rule, index) => (
+            <div key={rule.id} style={{ marginBottom: '12px', paddingBottom: '8px', borderBottom: '1px solid var(--light-300)' }}>
+              <div style={{ display: 'flex', gap: '4px', marginBottom: '6px' }}>
+                <TextInput
+                  size="sm"
+                  style={{ flex: 1 }}
+                  value={rule.match}
+                  onChange={(e) => { this.updateColorRule(index, 'match', e.target.value) }}
+                  placeholder={intl.formatMessage({ id: 'colorRuleMatchPlaceholder', defaultMessage: defaultMessages.colorRuleMatchPlaceholder })}
+                  aria-label={intl.formatMessage({ id: 'colorRuleMatch', defaultMessage: defaultMessages.colorRuleMatch })}
+                />
+                <Select size="sm" style={{ width: '96px' }} value={rule.target} onChange={(e) => { this.updateColorRule(index, 'target', e.target.value) }}
+                  aria-label={intl.formatMessage({ id: 'colorRuleTarget', defaultMessage: defaultMessages.colorRuleTarget })}>
+                  {COLOR_RULE_TARGETS.map(target => {
+                    const messageId = `colorTarget${target.charAt(0).toUpperCase()}${target.slice(1)}`
+                    return <Option key={target} value={target}>{intl.formatMessage({ id: messageId, defaultMessage: defaultMessages[messageId] })}</Option>
+                  })}
+                </Select>
+              </div>
+              {rule.match.trim() && !isValidColorRuleMatch(rule.match) && (
+                <div style={{ ...validationTextStyle, marginTop: '0', marginBottom: '6px' }}>
+                  {intl.formatMessage({ id: 'colorRuleInvalid', defaultMessage: defaultMessages.colorRuleInvalid })}
+                </div>
+              )}
+              <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                <Select size="sm" style={{ flex: 1 }} value={rule.colorSetting} onChange={(e) => { this.updateColorRule(index, 'colorSetting', e.target.value) }}
+                  aria-label={intl.formatMessage({ id: 'colorRuleColor', defaultMessage: defaultMessages.colorRuleColor })}>
+                  <Option value="">{intl.formatMessage({ id: 'customColor', defaultMessage: defaultMessages.customColor })}</Option>
+                  {COLOR_SETTINGS.map(setting => (
+                    <Option key={setting} value={setting}>{intl.formatMessage({ id: setting, defaultMessage: defaultMessages[setting] })}</Option>
+                  ))}
+                </Select>
+                {!rule.colorSetting && (
+                  <ThemeColorPicker value={rule.color} onChange={(color) => { this.updateColorRule(index, 'color', color) }} />
+                )}
+                <Button size="sm" type="tertiary" icon onClick={() => { this.removeColorRule(index) }}
+                  title={intl.formatMessage({ id: 'removeRule', defaultMessage: defaultMessages.removeRule })}
+                  aria-label={intl.formatMessage({ id: 'removeRule', defaultMessage: defaultMessages.removeRule })}>✕</Button>
+              </div>
+            </div>
+          ))}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+            <Button size="sm" type="secondary" onClick={() => { this.addColorRule() }}>
+              {intl.formatMessage({ id: 'addRule', defaultMessage: defaultMessages.addRule })}
+            </Button>
+            <Button size="sm" type="secondary" onClick={this.toggleDetectedColors} aria-expanded={this.state.showDetectedColors}>
+              {intl.formatMessage({ id: 'detectColors', defaultMessage: defaultMessages.detectColors })}
+            </Button>
+            {config.colorRules && (
+              <Button size="sm" type="tertiary" onClick={this.resetColorRules}>
+                {intl.formatMessage({ id: 'restoreColorRules', defaultMessage: defaultMessages.restoreColorRules })}
+              </Button>
+            )}
+          </div>
+          {this.state.showDetectedColors && (
+            <div style={{ marginTop: '8px' }}>
+              <span style={{ ...labelTextStyle, display: 'block', marginBottom: '4px', whiteSpace: 'normal' }}>
+                {svgColors.length
+                  ? intl.formatMessage({ id: 'detectColorsHint', defaultMessage: defaultMessages.detectColorsHint })
+                  : intl.formatMessage({ id: 'detectColorsEmpty', defaultMessage: defaultMessages.detectColorsEmpty })}
+              </span>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                {svgColors.map(color => (
+                  <Button key={color} size="sm" type="tertiary" onClick={() => { this.addColorRule(color) }}
+                    title={intl.formatMessage({ id: 'addColorRuleFor', defaultMessage: defaultMessages.addColorRuleFor }, { color })}>
+                    <span style={{ display: 'inline-block', width: '12px', height: '12px', marginRight: '4px', verticalAlign: 'middle', background: color, border: '1px solid #888' }} />
+                    {color}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+          <span style={{ ...labelTextStyle, display: 'block', marginTop: '8px', whiteSpace: 'normal' }}>
+            {intl.formatMessage({ id: 'colorRulesHint', defaultMessage: defaultMessages.colorRulesHint })}
+          </span>
         </SettingSection>
 
         <SettingSection title={intl.formatMessage({ id: 'expandPopupStyling', defaultMessage: defaultMessages.expandPopupStyling })}>
@@ -215,6 +1003,24 @@ export default class Setting extends React.PureComponent<AllWidgetSettingProps<I
             </SettingRow>
           )}
         </SettingSection>
+
+        <SettingSection title={intl.formatMessage({ id: 'tooltipStyling', defaultMessage: defaultMessages.tooltipStyling })}>
+          <SettingRow label={intl.formatMessage({ id: 'crosshairColor', defaultMessage: defaultMessages.crosshairColor })}>
+            <ThemeColorPicker value={config.crosshairColor} onChange={(color) => { this.onConfigChange('crosshairColor', color) }} />
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'tooltipBackground', defaultMessage: defaultMessages.tooltipBackground })}>
+            <ThemeColorPicker value={config.tooltipBackgroundColor} onChange={(color) => { this.onConfigChange('tooltipBackgroundColor', color) }} />
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'tooltipText', defaultMessage: defaultMessages.tooltipText })}>
+            <ThemeColorPicker value={config.tooltipTextColor} onChange={(color) => { this.onConfigChange('tooltipTextColor', color) }} />
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'tooltipBorder', defaultMessage: defaultMessages.tooltipBorder })}>
+            <ThemeColorPicker value={config.tooltipBorderColor} onChange={(color) => { this.onConfigChange('tooltipBorderColor', color) }} />
+          </SettingRow>
+          <SettingRow label={intl.formatMessage({ id: 'tooltipBorderRadius', defaultMessage: defaultMessages.tooltipBorderRadius })}>
+            <NumericInput style={narrowNumericBoxStyle} value={config.tooltipBorderRadius} onAcceptValue={(value) => { this.onConfigChange('tooltipBorderRadius', value) }} min={0} step={1} showHandlers={false} size="sm" suffix="px" />
+          </SettingRow>
+        </SettingSection>
       </div>
     )
   }
@@ -1,10 +1,133 @@
 export default {
     dataSource: 'Data Source',
     sourceUrl: 'Source URL',
+    sourceUrlHint: 'Coordinates in a yr.no or api.met.no URL are copied into the location below.',
+    location: 'Location',
+    locationName: 'Display Name',
+    locationNamePlaceholder: 'Shown as the chart title',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    altitude: 'Altitude',
+    latitudeInvalid: 'Latitude must be between -90 and 90.',
+    longitudeInvalid: 'Longitude must be between -180 and 180.',
+    altitudeInvalid: 'Altitude must be between -500 and 9000 m.',
     autoRefresh: 'Auto Refresh',
+    showUncertainty: 'Show Uncertainty',
+    showUncertaintyHint: 'Shades the 10th–90th percentile of temperature and wind and hatches the possible maximum precipitation. MET Norway sources use the larger "complete" product for this; other providers may not supply the data.',
     refreshInterval: 'Refresh Interval',
+    refreshIntervalHint: 'Forecasts from api.met.no refresh when the server says new data is due; the interval is only used for other sources.',
+    enableNowcast: 'Precipitation Nowcast',
+    enableNowcastHint: 'Adds a button that switches to a two-hour radar precipitation chart where MET Norway Nowcast covers the location (the Nordic countries). Elsewhere the meteogram is shown.',
+    nowcastRefreshInterval: 'Nowcast Refresh',
+    showWarnings: 'Weather Warnings',
+    warningsFeedUrl: 'Warnings Feed URL',
+    warningsFeedUrlHint: 'Leave empty for MET Norway MetAlerts. Any feed in the same GeoJSON format works, such as a local stub file; {lat} and {lon} are replaced with the coordinates.',
+    forecastHorizon: 'Forecast Range',
+    horizon24h: '24 hours',
+    horizon48h: '48 hours',
+    horizon3d: '3 days',
+    horizonFull: 'Full range',
+    linkedLocation: 'Map & Feature Location',
+    linkedMap: 'Linked Map',
+    linkedDataSource: 'Feature Layer',
+    forecastOutput: '{label} forecast',
+    forecastProvider: 'Forecast Provider',
+    provider: 'Provider',
+    providerMetNoCompact: 'MET Norway (compact)',
+    providerMetNoComplete: 'MET Norway (complete)',
+    providerOpenMeteo: 'Open-Meteo',
+    providerCustom: 'Custom JSON endpoint',
+    providerBaseUrl: 'Base URL',
+    providerBaseUrlHint: 'Leave empty for the public service. Set it to use a proxy or mirror with the same API.',
+    customEndpointUrl: 'Endpoint URL',
+    customEndpointHint: '{lat}, {lon} and {altitude} are replaced with the location. Paths below are dot separated; values must be in °C, m/s, degrees and mm.',
+    mappingSeries: 'Time steps (array)',
+    mappingTime: 'Time',
+    mappingTemperature: 'Temperature',
+    mappingWindSpeed: 'Wind speed',
+    mappingWindGust: 'Wind gust',
+    mappingWindDirection: 'Wind direction',
+    mappingPrecipitation: 'Precipitation',
+    mappingSymbolCode: 'Weather symbol',
+    mappingCloudCover: 'Cloud cover',
+    mappingHumidity: 'Relative humidity',
+    mappingPressure: 'Air pressure',
+    mappingDewPoint: 'Dew point',
+    mappingUvIndex: 'UV index',
+    mappingUpdatedAt: 'Updated at (from response root)',
+    linkedLocationHint: 'Map clicks and selected features replace the Source URL location. The Source URL is used again when nothing is selected.',
+    timeZoneSection: 'Time Zone',
+    timeZoneMode: 'Show Times In',
+    timeZoneLocation: 'Location zone',
+    timeZoneCustom: 'Custom zone',
+    timeZoneLocationHint: 'The location zone is looked up offline and is exact for Europe and North America. Elsewhere it is a whole-hour offset from the longitude, without daylight saving time; choose a custom zone there.',
+    timeZoneApproximate: 'No time zone is known for this location, so times use {offset} without daylight saving time. Choose a custom zone, e.g. Asia/Kolkata.',
+    useCustomTimeZone: 'Use a Custom Zone',
+    timeZoneInvalid: 'Unknown IANA time zone, e.g. Europe/Oslo. The location zone is used instead.',
+    units: 'Units',
+    temperatureUnit: 'Temperature',
+    windUnit: 'Wind',
+    precipitationUnit: 'Precipitation',
+    knots: 'Knots',
+    beaufort: 'Beaufort',
+    inches: 'Inches',
+    layoutSection: 'Layout',
+    layoutMode: 'Show',
+    layoutAuto: 'Automatic',
+    layoutChart: 'Always chart',
+    layoutCard: 'Always compact card',
+    compactBreakpoint: 'Card Below Width',
+    layoutHint: 'The compact card shows the current temperature, weather, wind and precipitation for the next hours. It needs forecast data, so charts from a source URL or SVG code are always shown in full.',
+    chartPanels: 'Chart Panels',
+    chartPanelsHint: 'Panels are drawn from top to bottom in this order. Dew point and UV index make MET Norway sources use the "complete" product.',
+    panelTemperature: 'Temperature',
+    panelPrecipitation: 'Precipitation',
+    panelWind: 'Wind',
+    panelCloudCover: 'Cloud cover',
+    panelHumidity: 'Relative humidity',
+    panelPressure: 'Air pressure',
+    panelDewPoint: 'Dew point',
+    panelUvIndex: 'UV index',
+    thresholdRules: 'Threshold Rules',
+    thresholdRulesHint: 'Thresholds are in °C, m/s and mm per hour whatever the display units. Matching periods are highlighted on the chart. When a rule first matches, the widget selects those rows in its output data source so other widgets can react, e.g. through a message action.',
+    addRule: 'Add Rule',
+    removeRule: 'Remove rule',
+    ruleVariable: 'Variable',
+    ruleComparator: 'Comparison',
+    ruleThreshold: 'Threshold',
+    ruleLabelPlaceholder: 'Badge text, e.g. Crane limit',
+    variableTemperature: 'Temperature',
+    variableWindSpeed: 'Wind speed',
+    variableWindGust: 'Wind gust',
+    variablePrecipitation: 'Precipitation',
+    export: 'Export',
+    exportSvg: 'SVG Image',
+    exportPng: 'PNG Image',
+    exportCsv: 'CSV Data',
+    exportJson: 'JSON Data',
+    pngScale: 'PNG Scale',
+    movePanelUp: 'Move up',
+    movePanelDown: 'Move down',
+    removePanel: 'Remove panel',
+    addPanel: 'Add Panel',
+    choosePanel: 'Choose…',
+    showNightShading: 'Shade Night',
+    showSunTimes: 'Sunrise/Sunset Times',
     fallbackContent: 'Fallback SVG Code',
     svgCodePlaceholder: 'Paste SVG code here (used if URL fails or is empty)',
+    stylePresets: 'Style Presets',
+    stylePreset: 'Preset',
+    presetCustom: 'Custom',
+    presetYrClassic: 'Yr classic',
+    presetDark: 'Dark',
+    presetHighContrast: 'High contrast',
+    presetAppTheme: 'Follow app theme',
+    stylePresetHint: 'A preset replaces all colours below. Follow app theme keeps using the colours of the app theme, also after the theme changes.',
+    exportStyle: 'Export Style',
+    importStyle: 'Import Style',
+    styleImported: 'Imported {count} style settings.',
+    styleImportSkipped: 'Imported {count} style settings. Skipped invalid values for: {keys}.',
+    styleImportInvalid: 'The file is not a style export of this widget.',
     generalStyling: 'General Styling',
     overallBackground: 'Overall Background',
     padding: 'Padding',
@@ -23,10 +146,38 @@ export default {
     temperatureLineColor: 'Temperature',
     windLineColor: 'Wind m/s',
     windGustLineColor: 'Wind Gust',
+    windDirectionStyle: 'Wind Direction',
+    windDirectionArrows: 'Arrows',
+    windDirectionBarbs: 'Wind barbs',
+    windDirectionNone: 'None',
+    windDirectionColor: 'Wind Direction Color',
     precipitationBarColor: 'Precipitation',
     maxPrecipitationColor: 'Max Precipitation',
+    cloudCoverColor: 'Cloud Cover',
+    humidityColor: 'Humidity',
+    pressureColor: 'Air Pressure',
+    dewPointColor: 'Dew Point',
+    uvIndexColor: 'UV Index',
+    nightShadingColor: 'Night Shading',
+    nightShadingOpacity: 'Night Shading Opacity',
     refreshButtonBackground: 'Refresh Button Background',
     refreshButtonIcon: 'Refresh Button Icon',
+    colorRules: 'Color Rules',
+    colorRulesHint: 'Recolors SVG charts loaded from the Source URL or the fallback code. Match a color such as #56616c or a CSS selector, then pick a style setting or a custom color. Later rules win. The default rules fit the yr.no meteogram.',
+    colorRuleMatch: 'Color or selector',
+    colorRuleMatchPlaceholder: '#56616c or a CSS selector',
+    colorRuleInvalid: 'Not a hex or rgb() color, or a valid CSS selector.',
+    colorRuleTarget: 'Applies to',
+    colorTargetFill: 'Fill',
+    colorTargetStroke: 'Stroke',
+    colorTargetBoth: 'Fill & stroke',
+    colorRuleColor: 'New color',
+    customColor: 'Custom color',
+    detectColors: 'Detect Colors',
+    detectColorsHint: 'Colors in the chart last shown in the builder, most used first. Click one to add a rule for it.',
+    detectColorsEmpty: 'No colors found yet. Let the chart load in the builder, then try again.',
+    addColorRuleFor: 'Add a rule for {color}',
+    restoreColorRules: 'Restore Defaults',
     expandPopupStyling: 'Expand & Popup Styling',
     expandButtonBackground: 'Expand Button Background',
     expandButtonIcon: 'Expand Button Icon',
@@ -40,5 +191,11 @@ export default {
     popupBoxShadowSpread: 'Popup Shadow Spread',
     popupBoxShadowColor: 'Popup Shadow Color',
     blockPage: 'Block Page',
-    maskColor: 'Mask Color'
+    maskColor: 'Mask Color',
+    tooltipStyling: 'Hover Tooltip Styling',
+    crosshairColor: 'Crosshair',
+    tooltipBackground: 'Tooltip Background',
+    tooltipText: 'Tooltip Text',
+    tooltipBorder: 'Tooltip Border',
+    tooltipBorderRadius: 'Tooltip Border Radius'
 }
@@ -0,0 +1,207 @@
+System.register([], function (e) {
+  return {
+    execute: function () {
+      e({
+        "dataSource": "Datakilde",
+        "sourceUrl": "Kilde-URL",
+        "sourceUrlHint": "Koordinater i en yr.no- eller api.met.no-URL kopieres til stedet nedenfor.",
+        "location": "Sted",
+        "locationName": "Visningsnavn",
+        "locationNamePlaceholder": "Vises som tittel på grafen",
+        "latitude": "Breddegrad",
+        "longitude": "Lengdegrad",
+        "altitude": "Høyde over havet",
+        "latitudeInvalid": "Breddegraden må være mellom -90 og 90.",
+        "longitudeInvalid": "Lengdegraden må være mellom -180 og 180.",
+        "altitudeInvalid": "Høyden må være mellom -500 og 9000 m.",
+        "autoRefresh": "Automatisk oppdatering",
+        "showUncertainty": "Vis usikkerhet",
+        "showUncertaintyHint": "Skraverer 10.–90. persentil for temperatur og vind og viser mulig maksimal nedbør. Kilder fra Meteorologisk institutt bruker da det større «complete»-produktet; andre leverandører har kanskje ikke disse dataene.",
+        "refreshInterval": "Oppdateringsintervall",
+        "refreshIntervalHint": "Varsler fra api.met.no oppdateres når serveren melder at nye data er klare; intervallet brukes bare for andre kilder.",
+        "enableNowcast": "Nedbør neste to timer",
+        "enableNowcastHint": "Legger til en knapp som bytter til en radargraf over nedbøren de neste to timene der Meteorologisk institutts nowcast dekker stedet (Norden). Ellers vises meteogrammet.",
+        "nowcastRefreshInterval": "Oppdatering av nedbørradar",
+        "showWarnings": "Farevarsler",
+        "warningsFeedUrl": "URL til farevarsler",
+        "warningsFeedUrlHint": "La stå tomt for MetAlerts fra Meteorologisk institutt. Alle strømmer i samme GeoJSON-format virker, for eksempel en lokal testfil; {lat} og {lon} erstattes med koordinatene.",
+        "forecastHorizon": "Varselperiode",
+        "horizon24h": "24 timer",
+        "horizon48h": "48 timer",
+        "horizon3d": "3 døgn",
+        "horizonFull": "Hele perioden",
+        "linkedLocation": "Sted fra kart og objekter",
+        "linkedMap": "Tilknyttet kart",
+        "linkedDataSource": "Objektlag",
+        "forecastOutput": "Værvarsel for {label}",
+        "forecastProvider": "Værleverandør",
+        "provider": "Leverandør",
+        "providerMetNoCompact": "Meteorologisk institutt (compact)",
+        "providerMetNoComplete": "Meteorologisk institutt (complete)",
+        "providerOpenMeteo": "Open-Meteo",
+        "providerCustom": "Eget JSON-endepunkt",
+        "providerBaseUrl": "Basis-URL",
+        "providerBaseUrlHint": "La stå tomt for den offentlige tjenesten. Angi den for å bruke en mellomtjener eller et speil med samme API.",
+        "customEndpointUrl": "Endepunkt-URL",
+        "customEndpointHint": "{lat}, {lon} og {altitude} erstattes med stedet. Stiene nedenfor er punktseparerte; verdiene må være i °C, m/s, grader og mm.",
+        "mappingSeries": "Tidssteg (liste)",
+        "mappingTime": "Tid",
+        "mappingTemperature": "Temperatur",
+        "mappingWindSpeed": "Vindstyrke",
+        "mappingWindGust": "Vindkast",
+        "mappingWindDirection": "Vindretning",
+        "mappingPrecipitation": "Nedbør",
+        "mappingSymbolCode": "Værsymbol",
+        "mappingCloudCover": "Skydekke",
+        "mappingHumidity": "Relativ luftfuktighet",
+        "mappingPressure": "Lufttrykk",
+        "mappingDewPoint": "Duggpunkt",
+        "mappingUvIndex": "UV-indeks",
+        "mappingUpdatedAt": "Oppdatert (fra roten av svaret)",
+        "linkedLocationHint": "Klikk i kartet og valgte objekter erstatter stedet fra kilde-URL-en. Kilde-URL-en brukes igjen når ingenting er valgt.",
+        "timeZoneSection": "Tidssone",
+        "timeZoneMode": "Vis tider i",
+        "timeZoneLocation": "Stedets tidssone",
+        "timeZoneCustom": "Egen tidssone",
+        "timeZoneLocationHint": "Stedets tidssone slås opp uten nett og er nøyaktig for Europa og Nord-Amerika. Ellers er den en forskyvning i hele timer ut fra lengdegraden, uten sommertid; velg en egen tidssone der.",
+        "timeZoneApproximate": "Ingen tidssone er kjent for dette stedet, så tider vises i {offset} uten sommertid. Velg en egen tidssone, f.eks. Asia/Kolkata.",
+        "useCustomTimeZone": "Bruk egen tidssone",
+        "timeZoneInvalid": "Ukjent IANA-tidssone, f.eks. Europe/Oslo. Stedets tidssone brukes i stedet.",
+        "units": "Enheter",
+        "temperatureUnit": "Temperatur",
+        "windUnit": "Vind",
+        "precipitationUnit": "Nedbør",
+        "knots": "Knop",
+        "beaufort": "Beaufort",
+        "inches": "Tommer",
+        "layoutSection": "Oppsett",
+        "layoutMode": "Vis",
+        "layoutAuto": "Automatisk",
+        "layoutChart": "Alltid graf",
+        "layoutCard": "Alltid kompakt kort",
+        "compactBreakpoint": "Kort under bredde",
+        "layoutHint": "Det kompakte kortet viser temperatur, vær, vind og nedbør de neste timene. Det trenger prognosedata, så grafer fra en kilde-URL eller SVG-kode vises alltid i full størrelse.",
+        "chartPanels": "Grafpaneler",
+        "chartPanelsHint": "Panelene tegnes ovenfra og ned i denne rekkefølgen. Duggpunkt og UV-indeks gjør at kilder fra Meteorologisk institutt bruker «complete»-produktet.",
+        "panelTemperature": "Temperatur",
+        "panelPrecipitation": "Nedbør",
+        "panelWind": "Vind",
+        "panelCloudCover": "Skydekke",
+        "panelHumidity": "Relativ luftfuktighet",
+        "panelPressure": "Lufttrykk",
+        "panelDewPoint": "Duggpunkt",
+        "panelUvIndex": "UV-indeks",
+        "thresholdRules": "Terskelregler",
+        "thresholdRulesHint": "Tersklene er i °C, m/s og mm per time uansett visningsenheter. Perioder som treffer, markeres i grafen. Når en regel først slår til, velger widgeten de radene i utdatakilden sin, slik at andre widgeter kan reagere, f.eks. gjennom en meldingshandling.",
+        "addRule": "Legg til regel",
+        "removeRule": "Fjern regel",
+        "ruleVariable": "Variabel",
+        "ruleComparator": "Sammenligning",
+        "ruleThreshold": "Terskel",
+        "ruleLabelPlaceholder": "Merketekst, f.eks. Kran-grense",
+        "variableTemperature": "Temperatur",
+        "variableWindSpeed": "Vindstyrke",
+        "variableWindGust": "Vindkast",
+        "variablePrecipitation": "Nedbør",
+        "export": "Eksport",
+        "exportSvg": "SVG-bilde",
+        "exportPng": "PNG-bilde",
+        "exportCsv": "CSV-data",
+        "exportJson": "JSON-data",
+        "pngScale": "PNG-skala",
+        "movePanelUp": "Flytt opp",
+        "movePanelDown": "Flytt ned",
+        "removePanel": "Fjern panel",
+        "addPanel": "Legg til panel",
+        "choosePanel": "Velg …",
+        "showNightShading": "Skyggelegg natt",
+        "showSunTimes": "Soloppgang og solnedgang",
+        "fallbackContent": "Reserve-SVG-kode",
+        "svgCodePlaceholder": "Lim inn SVG-kode her (brukes hvis URL-en feiler eller er tom)",
+        "stylePresets": "Stilmaler",
+        "stylePreset": "Mal",
+        "presetCustom": "Egendefinert",
+        "presetYrClassic": "Yr klassisk",
+        "presetDark": "Mørk",
+        "presetHighContrast": "Høy kontrast",
+        "presetAppTheme": "Følg app-temaet",
+        "stylePresetHint": "En mal erstatter alle fargene nedenfor. «Følg app-temaet» bruker fargene i app-temaet, også etter at temaet endres.",
+        "exportStyle": "Eksporter stil",
+        "importStyle": "Importer stil",
+        "styleImported": "Importerte {count} stilinnstillinger.",
+        "styleImportSkipped": "Importerte {count} stilinnstillinger. Hoppet over ugyldige verdier for: {keys}.",
+        "styleImportInvalid": "Filen er ikke en stileksport fra denne widgeten.",
+        "generalStyling": "Generell stil",
+        "overallBackground": "Bakgrunn",
+        "padding": "Innrykk",
+        "logoStyling": "Logostil",
+        "logoColor": "NRK- / Met.-logoer",
+        "yrLogoBackgroundColor": "Bakgrunn på Yr-logo",
+        "yrLogoTextColor": "Tekst på Yr-logo",
+        "textStyling": "Tekst og ikoner",
+        "mainTextColor": "Hovedtekst",
+        "secondaryTextColor": "Sekundærtekst",
+        "yAxisIconColor": "Ikoner på Y-aksen",
+        "graphStyling": "Grafstil",
+        "gridLineColor": "Farge på rutenett",
+        "gridLineWidth": "Bredde på rutenett",
+        "gridLineOpacity": "Gjennomsiktighet på rutenett",
+        "temperatureLineColor": "Temperatur",
+        "windLineColor": "Vind m/s",
+        "windGustLineColor": "Vindkast",
+        "windDirectionStyle": "Vindretning",
+        "windDirectionArrows": "Piler",
+        "windDirectionBarbs": "Vindfjær",
+        "windDirectionNone": "Ingen",
+        "windDirectionColor": "Farge på vindretning",
+        "precipitationBarColor": "Nedbør",
+        "maxPrecipitationColor": "Maks nedbør",
+        "cloudCoverColor": "Skydekke",
+        "humidityColor": "Luftfuktighet",
+        "pressureColor": "Lufttrykk",
+        "dewPointColor": "Duggpunkt",
+        "uvIndexColor": "UV-indeks",
+        "nightShadingColor": "Nattskygge",
+        "nightShadingOpacity": "Gjennomsiktighet på nattskygge",
+        "refreshButtonBackground": "Bakgrunn på oppdateringsknapp",
+        "refreshButtonIcon": "Ikon på oppdateringsknapp",
+        "colorRules": "Fargeregler",
+        "colorRulesHint": "Fargelegger SVG-grafer som lastes fra kilde-URL-en eller reservekoden. Angi en farge som #56616c eller en CSS-selektor, og velg en stilinnstilling eller en egen farge. Senere regler vinner. Standardreglene passer til meteogrammet fra yr.no.",
+        "colorRuleMatch": "Farge eller selektor",
+        "colorRuleMatchPlaceholder": "#56616c eller en CSS-selektor",
+        "colorRuleInvalid": "Ikke en hex- eller rgb()-farge eller en gyldig CSS-selektor.",
+        "colorRuleTarget": "Gjelder",
+        "colorTargetFill": "Fyll",
+        "colorTargetStroke": "Strek",
+        "colorTargetBoth": "Fyll og strek",
+        "colorRuleColor": "Ny farge",
+        "customColor": "Egen farge",
+        "detectColors": "Finn farger",
+        "detectColorsHint": "Farger i grafen som sist ble vist i byggeren, de mest brukte først. Klikk på en for å legge til en regel for den.",
+        "detectColorsEmpty": "Ingen farger funnet ennå. La grafen laste i byggeren og prøv igjen.",
+        "addColorRuleFor": "Legg til en regel for {color}",
+        "restoreColorRules": "Gjenopprett standard",
+        "expandPopupStyling": "Forstørring og popup",
+        "expandButtonBackground": "Bakgrunn på forstørringsknapp",
+        "expandButtonIcon": "Ikon på forstørringsknapp",
+        "expandButtonBorderRadius": "Hjørneradius på knapper",
+        "popupBackground": "Bakgrunn på popup",
+        "popupPadding": "Innrykk i popup",
+        "popupBorderRadius": "Hjørneradius på popup",
+        "popupBoxShadowOffsetX": "Skyggeforskyvning X",
+        "popupBoxShadowOffsetY": "Skyggeforskyvning Y",
+        "popupBoxShadowBlur": "Skyggeuskarphet",
+        "popupBoxShadowSpread": "Skyggespredning",
+        "popupBoxShadowColor": "Skyggefarge",
+        "blockPage": "Blokker siden",
+        "maskColor": "Maskefarge",
+        "tooltipStyling": "Stil på verktøytips",
+        "crosshairColor": "Trådkors",
+        "tooltipBackground": "Bakgrunn på verktøytips",
+        "tooltipText": "Tekst i verktøytips",
+        "tooltipBorder": "Kantlinje på verktøytips",
+        "tooltipBorderRadius": "Hjørneradius på verktøytips"
+      })
+    }
+  }
+})
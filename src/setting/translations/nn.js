@@ -0,0 +1,207 @@
+System.register([], function (e) {
+  return {
+    execute: function () {
+      e({
+        "dataSource": "Datakjelde",
+        "sourceUrl": "Kjelde-URL",
+        "sourceUrlHint": "Koordinatar i ein yr.no- eller api.met.no-URL vert kopierte til staden nedanfor.",
+        "location": "Stad",
+        "locationName": "Visingsnamn",
+        "locationNamePlaceholder": "Vert vist som tittel på grafen",
+        "latitude": "Breiddegrad",
+        "longitude": "Lengdegrad",
+        "altitude": "Høgd over havet",
+        "latitudeInvalid": "Breiddegraden må vere mellom -90 og 90.",
+        "longitudeInvalid": "Lengdegraden må vere mellom -180 og 180.",
+        "altitudeInvalid": "Høgda må vere mellom -500 og 9000 m.",
+        "autoRefresh": "Automatisk oppdatering",
+        "showUncertainty": "Vis uvisse",
+        "showUncertaintyHint": "Skraverer 10.–90. persentil for temperatur og vind og viser mogleg maksimal nedbør. Kjelder frå Meteorologisk institutt nyttar då det større «complete»-produktet; andre leverandørar har kanskje ikkje desse dataa.",
+        "refreshInterval": "Oppdateringsintervall",
+        "refreshIntervalHint": "Varsel frå api.met.no vert oppdaterte når tenaren melder at nye data er klare; intervallet vert berre nytta for andre kjelder.",
+        "enableNowcast": "Nedbør dei neste to timane",
+        "enableNowcastHint": "Legg til ein knapp som byter til ein radargraf over nedbøren dei neste to timane der nowcast frå Meteorologisk institutt dekkjer staden (Norden). Elles vert meteogrammet vist.",
+        "nowcastRefreshInterval": "Oppdatering av nedbørradar",
+        "showWarnings": "Farevarsel",
+        "warningsFeedUrl": "URL til farevarsel",
+        "warningsFeedUrlHint": "La stå tomt for MetAlerts frå Meteorologisk institutt. Alle straumar i same GeoJSON-format verkar, til dømes ei lokal testfil; {lat} og {lon} vert bytte ut med koordinatane.",
+        "forecastHorizon": "Varselperiode",
+        "horizon24h": "24 timar",
+        "horizon48h": "48 timar",
+        "horizon3d": "3 døgn",
+        "horizonFull": "Heile perioden",
+        "linkedLocation": "Stad frå kart og objekt",
+        "linkedMap": "Tilknytt kart",
+        "linkedDataSource": "Objektlag",
+        "forecastOutput": "Vêrvarsel for {label}",
+        "forecastProvider": "Vêrleverandør",
+        "provider": "Leverandør",
+        "providerMetNoCompact": "Meteorologisk institutt (compact)",
+        "providerMetNoComplete": "Meteorologisk institutt (complete)",
+        "providerOpenMeteo": "Open-Meteo",
+        "providerCustom": "Eige JSON-endepunkt",
+        "providerBaseUrl": "Basis-URL",
+        "providerBaseUrlHint": "La stå tomt for den offentlege tenesta. Oppgje han for å nytte ein mellomtenar eller ein spegel med same API.",
+        "customEndpointUrl": "Endepunkt-URL",
+        "customEndpointHint": "{lat}, {lon} og {altitude} vert bytte ut med staden. Stiane nedanfor er punktseparerte; verdiane må vere i °C, m/s, grader og mm.",
+        "mappingSeries": "Tidssteg (liste)",
+        "mappingTime": "Tid",
+        "mappingTemperature": "Temperatur",
+        "mappingWindSpeed": "Vindstyrke",
+        "mappingWindGust": "Vindkast",
+        "mappingWindDirection": "Vindretning",
+        "mappingPrecipitation": "Nedbør",
+        "mappingSymbolCode": "Vêrsymbol",
+        "mappingCloudCover": "Skydekke",
+        "mappingHumidity": "Relativ luftfukt",
+        "mappingPressure": "Lufttrykk",
+        "mappingDewPoint": "Duggpunkt",
+        "mappingUvIndex": "UV-indeks",
+        "mappingUpdatedAt": "Oppdatert (frå rota av svaret)",
+        "linkedLocationHint": "Klikk i kartet og valde objekt erstattar staden frå kjelde-URL-en. Kjelde-URL-en vert nytta att når ingenting er valt.",
+        "timeZoneSection": "Tidssone",
+        "timeZoneMode": "Vis tider i",
+        "timeZoneLocation": "Tidssona til staden",
+        "timeZoneCustom": "Eiga tidssone",
+        "timeZoneLocationHint": "Tidssona til staden vert slått opp utan nett og er nøyaktig for Europa og Nord-Amerika. Elles er ho ei forskyving i heile timar ut frå lengdegraden, utan sommartid; vel ei eiga tidssone der.",
+        "timeZoneApproximate": "Ingen tidssone er kjend for denne staden, så tider vert viste i {offset} utan sommartid. Vel ei eiga tidssone, t.d. Asia/Kolkata.",
+        "useCustomTimeZone": "Bruk eiga tidssone",
+        "timeZoneInvalid": "Ukjend IANA-tidssone, t.d. Europe/Oslo. Tidssona til staden vert nytta i staden.",
+        "units": "Einingar",
+        "temperatureUnit": "Temperatur",
+        "windUnit": "Vind",
+        "precipitationUnit": "Nedbør",
+        "knots": "Knop",
+        "beaufort": "Beaufort",
+        "inches": "Tommar",
+        "layoutSection": "Oppsett",
+        "layoutMode": "Vis",
+        "layoutAuto": "Automatisk",
+        "layoutChart": "Alltid graf",
+        "layoutCard": "Alltid kompakt kort",
+        "compactBreakpoint": "Kort under breidd",
+        "layoutHint": "Det kompakte kortet viser temperatur, vêr, vind og nedbør dei neste timane. Det treng prognosedata, så grafar frå ein kjelde-URL eller SVG-kode vert alltid viste i full storleik.",
+        "chartPanels": "Grafpaneler",
+        "chartPanelsHint": "Panela vert teikna ovanfrå og ned i denne rekkjefølgja. Duggpunkt og UV-indeks gjer at kjelder frå Meteorologisk institutt nyttar «complete»-produktet.",
+        "panelTemperature": "Temperatur",
+        "panelPrecipitation": "Nedbør",
+        "panelWind": "Vind",
+        "panelCloudCover": "Skydekke",
+        "panelHumidity": "Relativ luftfukt",
+        "panelPressure": "Lufttrykk",
+        "panelDewPoint": "Duggpunkt",
+        "panelUvIndex": "UV-indeks",
+        "thresholdRules": "Terskelreglar",
+        "thresholdRulesHint": "Tersklane er i °C, m/s og mm per time uansett visingseiningar. Periodar som treffer, vert markerte i grafen. Når ein regel først slår til, vel widgeten dei radene i utdatakjelda si, slik at andre widgetar kan reagere, t.d. gjennom ei meldingshandling.",
+        "addRule": "Legg til regel",
+        "removeRule": "Fjern regel",
+        "ruleVariable": "Variabel",
+        "ruleComparator": "Samanlikning",
+        "ruleThreshold": "Terskel",
+        "ruleLabelPlaceholder": "Merketekst, t.d. Kran-grense",
+        "variableTemperature": "Temperatur",
+        "variableWindSpeed": "Vindstyrke",
+        "variableWindGust": "Vindkast",
+        "variablePrecipitation": "Nedbør",
+        "export": "Eksport",
+        "exportSvg": "SVG-bilde",
+        "exportPng": "PNG-bilde",
+        "exportCsv": "CSV-data",
+        "exportJson": "JSON-data",
+        "pngScale": "PNG-skala",
+        "movePanelUp": "Flytt opp",
+        "movePanelDown": "Flytt ned",
+        "removePanel": "Fjern panel",
+        "addPanel": "Legg til panel",
+        "choosePanel": "Vel …",
+        "showNightShading": "Skuggelegg natt",
+        "showSunTimes": "Soloppgang og solnedgang",
+        "fallbackContent": "Reserve-SVG-kode",
+        "svgCodePlaceholder": "Lim inn SVG-kode her (vert nytta viss URL-en feilar eller er tom)",
+        "stylePresets": "Stilmalar",
+        "stylePreset": "Mal",
+        "presetCustom": "Eigendefinert",
+        "presetYrClassic": "Yr klassisk",
+        "presetDark": "Mørk",
+        "presetHighContrast": "Høg kontrast",
+        "presetAppTheme": "Følg app-temaet",
+        "stylePresetHint": "Ein mal erstattar alle fargane nedanfor. «Følg app-temaet» brukar fargane i app-temaet, også etter at temaet vert endra.",
+        "exportStyle": "Eksporter stil",
+        "importStyle": "Importer stil",
+        "styleImported": "Importerte {count} stilinnstillingar.",
+        "styleImportSkipped": "Importerte {count} stilinnstillingar. Hoppa over ugyldige verdiar for: {keys}.",
+        "styleImportInvalid": "Fila er ikkje ein stileksport frå denne widgeten.",
+        "generalStyling": "Generell stil",
+        "overallBackground": "Bakgrunn",
+        "padding": "Innrykk",
+        "logoStyling": "Logostil",
+        "logoColor": "NRK- / Met.-logoer",
+        "yrLogoBackgroundColor": "Bakgrunn på Yr-logo",
+        "yrLogoTextColor": "Tekst på Yr-logo",
+        "textStyling": "Tekst og ikon",
+        "mainTextColor": "Hovedtekst",
+        "secondaryTextColor": "Sekundærtekst",
+        "yAxisIconColor": "Ikon på Y-aksen",
+        "graphStyling": "Grafstil",
+        "gridLineColor": "Farge på rutenett",
+        "gridLineWidth": "Bredde på rutenett",
+        "gridLineOpacity": "Gjennomsikt på rutenett",
+        "temperatureLineColor": "Temperatur",
+        "windLineColor": "Vind m/s",
+        "windGustLineColor": "Vindkast",
+        "windDirectionStyle": "Vindretning",
+        "windDirectionArrows": "Piler",
+        "windDirectionBarbs": "Vindfjær",
+        "windDirectionNone": "Ingen",
+        "windDirectionColor": "Farge på vindretning",
+        "precipitationBarColor": "Nedbør",
+        "maxPrecipitationColor": "Maks nedbør",
+        "cloudCoverColor": "Skydekke",
+        "humidityColor": "Luftfukt",
+        "pressureColor": "Lufttrykk",
+        "dewPointColor": "Duggpunkt",
+        "uvIndexColor": "UV-indeks",
+        "nightShadingColor": "Nattskugge",
+        "nightShadingOpacity": "Gjennomsikt på nattskugge",
+        "refreshButtonBackground": "Bakgrunn på oppdateringsknapp",
+        "refreshButtonIcon": "Ikon på oppdateringsknapp",
+        "colorRules": "Fargereglar",
+        "colorRulesHint": "Fargelegg SVG-grafar som vert lasta frå kjelde-URL-en eller reservekoden. Oppgje ein farge som #56616c eller ein CSS-selektor, og vel ei stilinnstilling eller ein eigen farge. Seinare reglar vinn. Standardreglane passar til meteogrammet frå yr.no.",
+        "colorRuleMatch": "Farge eller selektor",
+        "colorRuleMatchPlaceholder": "#56616c eller ein CSS-selektor",
+        "colorRuleInvalid": "Ikkje ein hex- eller rgb()-farge eller ein gyldig CSS-selektor.",
+        "colorRuleTarget": "Gjeld",
+        "colorTargetFill": "Fyll",
+        "colorTargetStroke": "Strek",
+        "colorTargetBoth": "Fyll og strek",
+        "colorRuleColor": "Ny farge",
+        "customColor": "Eigen farge",
+        "detectColors": "Finn fargar",
+        "detectColorsHint": "Fargar i grafen som sist vart vist i byggjaren, dei mest brukte først. Klikk på ein for å leggje til ein regel for han.",
+        "detectColorsEmpty": "Ingen fargar funne enno. La grafen laste i byggjaren og prøv igjen.",
+        "addColorRuleFor": "Legg til ein regel for {color}",
+        "restoreColorRules": "Gjenopprett standard",
+        "expandPopupStyling": "Forstørring og popup",
+        "expandButtonBackground": "Bakgrunn på forstørringsknapp",
+        "expandButtonIcon": "Ikon på forstørringsknapp",
+        "expandButtonBorderRadius": "Hjørneradius på knappar",
+        "popupBackground": "Bakgrunn på popup",
+        "popupPadding": "Innrykk i popup",
+        "popupBorderRadius": "Hjørneradius på popup",
+        "popupBoxShadowOffsetX": "Skuggeforskyving X",
+        "popupBoxShadowOffsetY": "Skuggeforskyving Y",
+        "popupBoxShadowBlur": "Skuggeuskarpheit",
+        "popupBoxShadowSpread": "Skuggespreiing",
+        "popupBoxShadowColor": "Skuggefarge",
+        "blockPage": "Blokker sida",
+        "maskColor": "Maskefarge",
+        "tooltipStyling": "Stil på verktøytips",
+        "crosshairColor": "Trådkors",
+        "tooltipBackground": "Bakgrunn på verktøytips",
+        "tooltipText": "Tekst i verktøytips",
+        "tooltipBorder": "Kantlinje på verktøytips",
+        "tooltipBorderRadius": "Hjørneradius på verktøytips"
+      })
+    }
+  }
+})
@@ -0,0 +1,80 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { sanitizeSvg, sanitizeSvgMarkup } from '../src/runtime/svg-sanitizer'
+
+const readFixture = (name: string): string =>
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'svg', name), 'utf8')
+
+const parseSvg = (markup: string): Element =>
+  new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement
+
+// Markup is injected into an HTML page, so the result is checked the way the browser will read it
+const injectAsHtml = (svg: Element): HTMLElement => {
+  const container = document.createElement('div')
+  container.innerHTML = new XMLSerializer().serializeToString(svg)
+  return container
+}
+
+describe('sanitizeSvg', () => {
+  describe('rejects unsafe content', () => {
+    const cases: Array<[string, string[]]> = [
+      ['script.svg', ['<script>']],
+      ['event-handlers.svg', ['onload', 'onclick', 'onmouseover']],
+      ['javascript-href.svg', ['<a> href', '<a> xlink:href']],
+      ['data-href.svg', ['<a> xlink:href', '<image> href']],
+      ['external-use.svg', ['<use> xlink:href', '<use> href']],
+      ['external-image.svg', ['<image> href', '<image> xlink:href']],
+      ['style-url.svg', ['<rect> style', '<rect> fill']],
+      ['style-expression.svg', ['<rect> style']],
+      ['foreign-object.svg', ['onerror', '<iframe>']]
+    ]
+
+    it.each(cases)('%s', (fixture, expected) => {
+      const rejected = sanitizeSvg(parseSvg(readFixture(fixture)))
+      expect(rejected).toEqual(expect.arrayContaining(expected))
+    })
+  })
+
+  it('turns CDATA into text that cannot close the element', () => {
+    const svg = parseSvg(readFixture('cdata.svg'))
+    expect(sanitizeSvg(svg)).toEqual([])
+    const html = injectAsHtml(svg)
+    expect(html.querySelector('img')).toBeNull()
+    expect(html.querySelector('text').textContent).toContain('<img src=x onerror=alert(1)>')
+  })
+
+  it('drops comments and unknown metadata without rejecting the image', () => {
+    const svg = parseSvg('<svg xmlns="http://www.w3.org/2000/svg"><!-- note --><metadata><rdf /></metadata><rect width="1" height="1" /></svg>')
+    expect(sanitizeSvg(svg)).toEqual([])
+    expect(Array.from(svg.childNodes).map(node => node.nodeName)).toEqual(['rect'])
+  })
+
+  it('rejects anything but an <svg> root', () => {
+    expect(sanitizeSvg(parseSvg('<html xmlns="http://www.w3.org/1999/xhtml" />'))).toEqual(['<html>'])
+  })
+
+  it('keeps the yr.no meteogram intact', () => {
+    const markup = readFixture('yr-meteogram.svg')
+    const svg = parseSvg(markup)
+    const before = svg.querySelectorAll('*').length
+    expect(sanitizeSvg(svg)).toEqual([])
+    expect(svg.querySelectorAll('*').length).toBe(before)
+    expect(svg.querySelector('#temperature-curve-gradient')).not.toBeNull()
+    expect(svg.querySelector('#max-precipitation-pattern')).not.toBeNull()
+    expect(svg.querySelector('use').getAttribute('xlink:href')).toBe('#wind-arrow')
+    expect(svg.querySelector('foreignObject div').textContent).toContain('MET Norway')
+    expect(svg.querySelector('a').getAttribute('href')).toMatch(/^https:\/\/www\.yr\.no\//)
+  })
+})
+
+describe('sanitizeSvgMarkup', () => {
+  it('returns clean markup for widget icons', () => {
+    const markup = '<svg xmlns="http://www.w3.org/2000/svg"><g transform="rotate(90)"><path d="M0,0 L1,1" fill="#123456" /></g></svg>'
+    expect(sanitizeSvgMarkup(markup)).toContain('<path d="M0,0 L1,1" fill="#123456"/>')
+  })
+
+  it('returns null for unsafe or broken markup', () => {
+    expect(sanitizeSvgMarkup('<svg xmlns="http://www.w3.org/2000/svg"><title>rain_</title><script>alert(1)</script></svg>')).toBeNull()
+    expect(sanitizeSvgMarkup('<svg xmlns="http://www.w3.org/2000/svg"><g>')).toBeNull()
+  })
+})